@@ -1,19 +1,31 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
 import { useStore } from './store';
 import LoginScreen from './screens/LoginScreen';
+import PlacementScreen from './screens/PlacementScreen';
 import DashboardScreen from './screens/DashboardScreen';
 import ChatScreen from './screens/ChatScreen';
+import SessionsScreen from './screens/SessionsScreen';
 import VocabularyScreen from './screens/VocabularyScreen';
 import ProgressScreen from './screens/ProgressScreen';
 import TranslatorScreen from './screens/TranslatorScreen';
+import PronunciationScreen from './screens/PronunciationScreen';
 import Layout from './components/Layout';
 
 const App: React.FC = () => {
   const { currentScreen, checkSession, isDarkMode } = useStore();
+  // Saved data loads from IndexedDB asynchronously
+  const [hydrated, setHydrated] = useState(useStore.persist.hasHydrated());
 
   useEffect(() => {
-    checkSession();
-  }, [checkSession]);
+    // Hydration may have finished between the first render and this subscription
+    if (useStore.persist.hasHydrated()) setHydrated(true);
+    return useStore.persist.onFinishHydration(() => setHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (hydrated) checkSession();
+  }, [hydrated, checkSession]);
 
   // Apply dark mode class to html element
   useEffect(() => {
@@ -28,10 +40,16 @@ const App: React.FC = () => {
     switch (currentScreen) {
       case 'login':
         return <LoginScreen />;
+      case 'placement':
+        return <PlacementScreen />;
       case 'dashboard':
         return <DashboardScreen />;
       case 'practice':
         return <ChatScreen />;
+      case 'sessions':
+        return <SessionsScreen />;
+      case 'pronunciation':
+        return <PronunciationScreen />;
       case 'vocabulary':
         return <VocabularyScreen />;
       case 'translator':
@@ -45,7 +63,11 @@ const App: React.FC = () => {
 
   return (
     <Layout>
-      {renderScreen()}
+      {hydrated ? renderScreen() : (
+        <div className="flex items-center justify-center h-[60vh] text-gray-500">
+          <Loader size={24} className="animate-spin" />
+        </div>
+      )}
     </Layout>
   );
 };
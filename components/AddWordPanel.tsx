@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { X, Sparkles, Loader, Plus, AlertTriangle } from 'lucide-react';
+import { VocabWord } from '../types';
+import { enrichWord, describeTutorError } from '../services/geminiService';
+import { vocabKey } from '../services/vocabTransfer';
+
+type EditableField = 'word' | 'pronunciation' | 'partOfSpeech' | 'definition' | 'example' | 'indianContextExample';
+
+const FIELDS: Array<{ key: EditableField; label: string; multiline?: boolean }> = [
+  { key: 'word', label: 'Word' },
+  { key: 'pronunciation', label: 'Pronunciation' },
+  { key: 'partOfSpeech', label: 'Part of speech' },
+  { key: 'definition', label: 'Definition', multiline: true },
+  { key: 'example', label: 'Example', multiline: true },
+  { key: 'indianContextExample', label: 'Indian context', multiline: true }
+];
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-primary/50';
+
+// Bottom sheet for adding a word the learner met elsewhere: look it up, adjust, save
+const AddWordPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { user, vocabulary, addVocab } = useStore();
+  const [word, setWord] = useState('');
+  const [context, setContext] = useState('');
+  const [draft, setDraft] = useState<VocabWord | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDuplicate = (value: string) => vocabulary.some(w => vocabKey(w.word) === vocabKey(value));
+
+  const handleLookup = async () => {
+    if (!word.trim() || !user) return;
+    if (isDuplicate(word)) {
+      setError(`"${word.trim()}" is already in your deck.`);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDraft(await enrichWord(word.trim(), context.trim(), user.cefrLevel));
+    } catch (e) {
+      console.error(e);
+      setError(describeTutorError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.word.trim() || !draft.definition.trim()) return;
+    // Same dedupe as addVocab, checked here so the learner sees why nothing was added
+    if (isDuplicate(draft.word)) {
+      setError(`"${draft.word.trim()}" is already in your deck.`);
+      return;
+    }
+    addVocab([{ ...draft, word: draft.word.trim(), lastReviewed: Date.now() }]);
+    onClose();
+  };
+
+  const updateDraft = (key: EditableField, value: string) => {
+    setDraft(current => current && { ...current, [key]: value });
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto no-scrollbar bg-[#121212] border-t border-white/10 rounded-t-3xl p-6 pb-10 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white">Add a Word</h2>
+            <button onClick={onClose} className="p-2 -mr-2 text-gray-500 hover:text-white"><X size={20} /></button>
+        </div>
+
+        {!draft ? (
+            <div className="space-y-3">
+                <input
+                    value={word}
+                    onChange={(e) => { setWord(e.target.value); setError(null); }}
+                    onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                    placeholder="Word or phrase"
+                    className={inputClass}
+                    autoFocus
+                />
+                <textarea
+                    value={context}
+                    onChange={(e) => setContext(e.target.value)}
+                    placeholder="Where did you see it? Paste the sentence (optional)"
+                    rows={3}
+                    className={`${inputClass} resize-none`}
+                />
+                <button
+                    onClick={handleLookup}
+                    disabled={!word.trim() || isLoading}
+                    className="w-full py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 disabled:opacity-40"
+                >
+                    {isLoading ? <Loader size={16} className="animate-spin" /> : <Sparkles size={16} />} Look Up
+                </button>
+            </div>
+        ) : (
+            <div className="space-y-3">
+                {FIELDS.map(field => (
+                    <label key={field.key} className="block">
+                        <span className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">{field.label}</span>
+                        {field.multiline ? (
+                            <textarea
+                                value={draft[field.key]}
+                                onChange={(e) => updateDraft(field.key, e.target.value)}
+                                rows={2}
+                                className={`${inputClass} mt-1 resize-none`}
+                            />
+                        ) : (
+                            <input
+                                value={draft[field.key]}
+                                onChange={(e) => updateDraft(field.key, e.target.value)}
+                                className={`${inputClass} mt-1`}
+                            />
+                        )}
+                    </label>
+                ))}
+                <div className="grid grid-cols-2 gap-3 pt-2">
+                    <button
+                        onClick={() => setDraft(null)}
+                        className="py-4 bg-white/5 border border-white/10 text-gray-300 rounded-xl font-bold uppercase tracking-widest text-xs hover:bg-white/10"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!draft.word.trim() || !draft.definition.trim()}
+                        className="py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 disabled:opacity-40"
+                    >
+                        <Plus size={16} /> Save
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {error && (
+            <div className="flex items-start gap-2 text-sm text-red-300">
+                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                <p>{error}</p>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddWordPanel;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../store';
+import { X, HardDriveDownload, HardDriveUpload, AlertTriangle, Check, Merge, Replace } from 'lucide-react';
+import { backupFileName, BackupParseResult, createBackup, parseBackup, RestoreMode } from '../services/backup';
+import { pickProfileData } from '../services/profiles';
+import { downloadTextFile } from '../services/files';
+
+// Bottom sheet for saving the whole profile to a file and restoring it later
+const BackupPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const store = useStore();
+  const { user, restoreBackup } = store;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<BackupParseResult | null>(null);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [restoredWith, setRestoredWith] = useState<RestoreMode | null>(null);
+
+  const handleExport = () => {
+    if (!user) return;
+    downloadTextFile(backupFileName(user.name), createBackup(pickProfileData(store)), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+    setParsed(parseBackup(await file.text()));
+    setConfirmReplace(false);
+    setRestoredWith(null);
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!parsed?.ok) return;
+    if (mode === 'replace' && !confirmReplace) {
+      setConfirmReplace(true);
+      return;
+    }
+    restoreBackup(parsed.data, mode);
+    setRestoredWith(mode);
+    setParsed(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-lg bg-[#121212] border-t border-white/10 rounded-t-3xl p-6 pb-10 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white">Backup & Restore</h2>
+            <button onClick={onClose} className="p-2 -mr-2 text-gray-500 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="space-y-2">
+            <button
+                onClick={handleExport}
+                className="w-full py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2"
+            >
+                <HardDriveDownload size={16} /> Download Backup
+            </button>
+            <p className="text-[11px] text-gray-500 leading-relaxed">
+                Saves {user?.name}'s profile, vocabulary, translations, lesson transcripts, reports and settings to one file.
+                Keep it somewhere safe before clearing browser data or changing phones.
+            </p>
+        </div>
+
+        <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full py-4 bg-white/5 border border-white/10 text-gray-200 rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:bg-white/10"
+        >
+            <HardDriveUpload size={16} /> Restore from File
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+
+        {parsed && !parsed.ok && (
+            <div className="flex items-start gap-2 text-sm text-red-300">
+                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                <p>{parsed.error}</p>
+            </div>
+        )}
+
+        {parsed?.ok && (
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-4">
+                <div>
+                    <p className="font-bold text-white">{parsed.summary.name} · {parsed.summary.level}</p>
+                    <p className="text-xs text-gray-500">
+                        {parsed.summary.exportedAt ? `Saved ${new Date(parsed.summary.exportedAt).toLocaleString()}` : 'Save date unknown'}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                    <p><span className="text-white font-bold">{parsed.summary.words}</span> words</p>
+                    <p><span className="text-white font-bold">{parsed.summary.translations}</span> translations</p>
+                    <p><span className="text-white font-bold">{parsed.summary.messages}</span> chat messages</p>
+                    <p><span className="text-white font-bold">{parsed.summary.sessions}</span> past lessons</p>
+                    <p><span className="text-white font-bold">{parsed.summary.lessons}</span> lessons done</p>
+                    {parsed.summary.reports > 0 && (
+                        <p className="col-span-2">Includes {parsed.summary.reports} progress report{parsed.summary.reports === 1 ? '' : 's'}</p>
+                    )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <button
+                        onClick={() => handleRestore('merge')}
+                        className="py-3 bg-primary/20 border border-primary/40 text-blue-300 rounded-xl font-bold uppercase tracking-widest text-[10px] flex items-center justify-center gap-2"
+                    >
+                        <Merge size={14} /> Merge
+                    </button>
+                    <button
+                        onClick={() => handleRestore('replace')}
+                        className={`py-3 border rounded-xl font-bold uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 ${confirmReplace ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-white/5 border-white/10 text-gray-300'}`}
+                    >
+                        <Replace size={14} /> {confirmReplace ? 'Tap to Confirm' : 'Replace'}
+                    </button>
+                </div>
+                <p className="text-[11px] text-gray-500 leading-relaxed">
+                    Merge adds what's missing and keeps the most recent review of each word.
+                    Replace swaps {user?.name}'s current data for the backup.
+                </p>
+            </div>
+        )}
+
+        {restoredWith && (
+            <p className="text-sm text-green-400 font-bold flex items-center gap-2">
+                <Check size={16} /> Backup {restoredWith === 'merge' ? 'merged' : 'restored'}.
+            </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupPanel;
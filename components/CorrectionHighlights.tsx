@@ -0,0 +1,59 @@
+import React from 'react';
+import { Correction, CorrectionSeverity } from '../types';
+import { CATEGORY_LABELS } from '../services/corrections';
+
+const SEVERITY_STYLES: Record<CorrectionSeverity, { underline: string; dot: string }> = {
+  minor: { underline: 'decoration-yellow-300', dot: 'bg-yellow-400' },
+  moderate: { underline: 'decoration-orange-400', dot: 'bg-orange-500' },
+  major: { underline: 'decoration-red-500', dot: 'bg-red-500' }
+};
+
+// User message text with each corrected span underlined by severity
+export const HighlightedText: React.FC<{ text: string; corrections?: Correction[] }> = ({ text, corrections = [] }) => {
+  const spans = corrections.filter(c => c.span).sort((a, b) => a.span!.start - b.span!.start);
+  if (spans.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((correction, index) => {
+    const { start, end } = correction.span!;
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <span
+        key={index}
+        title={`${correction.corrected} — ${correction.explanation}`}
+        className={`underline decoration-wavy decoration-2 underline-offset-4 ${SEVERITY_STYLES[correction.severity].underline}`}
+      >
+        {text.slice(start, end)}
+      </span>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+// Correction cards shown under the bubble: original, fix, category and explanation
+export const CorrectionList: React.FC<{ corrections: Correction[] }> = ({ corrections }) => (
+  <div className="mt-3 pt-3 border-t border-white/10 bg-black/20 -mx-4 -mb-4 px-4 pb-4 rounded-b-2xl space-y-3">
+    {corrections.map((correction, index) => (
+      <div key={index}>
+        <div className="flex items-center gap-2 mb-1 mt-2">
+          <span className={`w-1.5 h-1.5 rounded-full ${SEVERITY_STYLES[correction.severity].dot}`}></span>
+          <p className="text-xs text-red-300 line-through opacity-70 italic">"{correction.original}"</p>
+          <span className="ml-auto text-[9px] uppercase tracking-widest font-bold text-gray-400 bg-white/10 px-2 py-0.5 rounded-full">
+            {CATEGORY_LABELS[correction.category]}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="w-1.5 h-1.5 rounded-full bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]"></span>
+          <p className="text-sm text-green-400 font-bold">{correction.corrected}</p>
+        </div>
+        {correction.explanation && (
+          <p className="text-[10px] text-gray-300 ml-3.5 border-l border-gray-500 pl-2">{correction.explanation}</p>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { CalendarDays, ChevronDown, ChevronUp } from 'lucide-react';
+import { batchWords, BATCH_SIZE_OPTIONS, findBatch, getTodayString } from '../services/dailyVocab';
+import { VocabWord } from '../types';
+
+const WordRow: React.FC<{ word: VocabWord }> = ({ word }) => (
+  <div className="flex items-baseline justify-between gap-3 py-2 border-b border-white/5 last:border-0">
+    <div className="min-w-0">
+      <p className="font-bold text-gray-100 truncate">{word.word}</p>
+      <p className="text-xs text-gray-500 truncate">{word.definition}</p>
+    </div>
+    <span className="text-[10px] text-gray-500 uppercase tracking-wider flex-shrink-0">{word.status}</span>
+  </div>
+);
+
+// Today's batch of new words, the batch size preference and earlier batches
+const DailyVocabBatches: React.FC = () => {
+  const { vocabBatches, vocabulary, dailyBatchSize, setDailyBatchSize } = useStore();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const today = getTodayString();
+  const todayBatch = findBatch(vocabBatches, today);
+  const earlier = vocabBatches.filter(b => b.date !== today);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest flex items-center gap-2">
+            <CalendarDays size={12} className="text-blue-400" /> Today's words
+        </h3>
+        <div className="flex gap-1">
+            {BATCH_SIZE_OPTIONS.map(size => (
+                <button
+                    key={size}
+                    onClick={() => setDailyBatchSize(size)}
+                    className={`w-7 h-7 rounded-full text-[10px] font-bold border transition-colors ${dailyBatchSize === size ? 'bg-primary/20 border-primary/50 text-blue-300' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+                    title={`${size} words a day`}
+                >
+                    {size}
+                </button>
+            ))}
+        </div>
+      </div>
+
+      <div className="bg-glass backdrop-blur-sm px-4 py-2 rounded-2xl border border-glass-border">
+        {todayBatch && batchWords(todayBatch, vocabulary).length > 0 ? (
+            batchWords(todayBatch, vocabulary).map(word => <WordRow key={word.id} word={word} />)
+        ) : (
+            <p className="text-sm text-gray-500 py-2">
+                {todayBatch ? 'No new words today — your deck already has everything on offer.' : 'Your words for today are on the way.'}
+            </p>
+        )}
+      </div>
+      {todayBatch && todayBatch.wordIds.length !== dailyBatchSize && (
+          <p className="text-[11px] text-gray-500 ml-1">The new size applies from tomorrow's batch.</p>
+      )}
+
+      {earlier.length > 0 && (
+          <div className="space-y-2">
+              <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="ml-1 text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-white flex items-center gap-1"
+              >
+                  Earlier batches ({earlier.length}) {showHistory ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+              </button>
+              {showHistory && earlier.map(batch => (
+                  <div key={batch.date} className="bg-white/5 px-4 py-2 rounded-2xl border border-white/5">
+                      <p className="text-[10px] text-gray-500 uppercase tracking-widest pt-1">
+                          {new Date(`${batch.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })} · {batch.level}
+                      </p>
+                      {batchWords(batch, vocabulary).map(word => <WordRow key={word.id} word={word} />)}
+                  </div>
+              ))}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyVocabBatches;
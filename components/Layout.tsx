@@ -37,8 +37,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     return <div className="min-h-[100dvh] bg-cinema-bg text-gray-100 font-sans">{children}</div>;
   }
 
-  // Hide nav on practice screen to allow full keyboard usage
-  const showNav = currentScreen !== 'practice';
+  // Hide nav on practice screen to allow full keyboard usage, and during the placement test
+  const showNav = currentScreen !== 'practice' && currentScreen !== 'placement';
 
   return (
     <div className={`flex flex-col h-[100dvh] overflow-hidden relative ${isDarkMode ? 'dark' : ''}`}>
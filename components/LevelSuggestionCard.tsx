@@ -0,0 +1,53 @@
+import React from 'react';
+import { useStore } from '../store';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { levelEvidenceSince, suggestLevelChange } from '../services/levels';
+import { formatReportDate } from '../services/reports';
+
+// Asks the learner to confirm a level change once enough recent reports agree on it
+const LevelSuggestionCard: React.FC = () => {
+  const { user, reports, levelHistory, levelPromptDeclinedAt, changeLevel, declineLevelChange } = useStore();
+  if (!user) return null;
+
+  const suggestion = suggestLevelChange(user.cefrLevel, reports, levelEvidenceSince(levelHistory, levelPromptDeclinedAt));
+  if (!suggestion) return null;
+
+  const isPromotion = suggestion.reason === 'promotion';
+  const Icon = isPromotion ? TrendingUp : TrendingDown;
+  const dates = suggestion.evidence.map(r => `${formatReportDate(r.generatedAt)} (${r.overallCEFR})`).join(', ');
+
+  return (
+    <div className={`rounded-2xl p-5 border space-y-4 ${isPromotion ? 'bg-green-900/10 border-green-500/30' : 'bg-orange-900/10 border-orange-500/30'}`}>
+        <div className="flex items-start gap-3">
+            <Icon size={20} className={isPromotion ? 'text-green-400' : 'text-orange-400'} />
+            <div>
+                <h4 className="text-white font-bold">
+                    {isPromotion ? `Ready for ${suggestion.to}?` : `Step back to ${suggestion.to}?`}
+                </h4>
+                <p className="text-sm text-gray-300 mt-1">
+                    {isPromotion
+                        ? `Your last ${suggestion.evidence.length} reports put you above ${suggestion.from}. Lessons, words and reading practice would move up to ${suggestion.to}.`
+                        : `Your last ${suggestion.evidence.length} reports put you below ${suggestion.from}. Practising at ${suggestion.to} for a while can rebuild confidence.`}
+                </p>
+                <p className="text-[10px] text-gray-500 mt-2">Based on {dates}</p>
+            </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+            <button
+                onClick={() => changeLevel(suggestion.to, suggestion.reason)}
+                className="py-3 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-[10px]"
+            >
+                Move to {suggestion.to}
+            </button>
+            <button
+                onClick={declineLevelChange}
+                className="py-3 bg-white/5 border border-white/10 text-gray-300 rounded-xl font-bold uppercase tracking-widest text-[10px]"
+            >
+                Stay at {suggestion.from}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default LevelSuggestionCard;
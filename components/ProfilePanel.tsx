@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { X, Check, HardDrive, History, Compass } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import { CEFR_LEVELS, formatReportDate } from '../services/reports';
+import { LEVEL_CHANGE_LABELS } from '../services/levels';
+import BackupPanel from './BackupPanel';
+
+// Bottom sheet for the active learner: working level (with manual override), its history,
+// the placement test and backup & restore
+const ProfilePanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { user, levelHistory, changeLevel, setScreen } = useStore();
+  const [pickedLevel, setPickedLevel] = useState<CEFRLevel | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+
+  if (!user) return null;
+  if (showBackup) return <BackupPanel onClose={onClose} />;
+
+  const applyLevel = () => {
+    if (!pickedLevel) return;
+    changeLevel(pickedLevel, 'manual');
+    setPickedLevel(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-[#121212] border-t border-white/10 rounded-t-3xl p-6 pb-10 space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+                <span className="text-3xl">{user.avatar}</span>
+                <div>
+                    <h2 className="text-lg font-bold text-white">{user.name}</h2>
+                    <p className="text-xs text-gray-500">Working level {user.cefrLevel}</p>
+                </div>
+            </div>
+            <button onClick={onClose} className="p-2 -mr-2 text-gray-500 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="space-y-3">
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Level</h3>
+            <div className="grid grid-cols-6 gap-2">
+                {CEFR_LEVELS.map(level => {
+                    const selected = (pickedLevel || user.cefrLevel) === level;
+                    return (
+                        <button
+                            key={level}
+                            onClick={() => setPickedLevel(level === user.cefrLevel ? null : level)}
+                            className={`py-2 rounded-lg border text-xs font-bold transition-colors ${
+                                selected ? 'bg-primary/20 border-primary/60 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                            }`}
+                        >
+                            {level}
+                        </button>
+                    );
+                })}
+            </div>
+            {pickedLevel ? (
+                <button
+                    onClick={applyLevel}
+                    className="w-full py-3 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-[10px] flex items-center justify-center gap-2"
+                >
+                    <Check size={14} /> Change level to {pickedLevel}
+                </button>
+            ) : (
+                <p className="text-[11px] text-gray-500 leading-relaxed">
+                    Your level moves with your progress reports. Pick one here if lessons feel too easy or too hard.
+                </p>
+            )}
+        </div>
+
+        {levelHistory.length > 0 && (
+            <div className="space-y-2">
+                <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest flex items-center gap-1.5">
+                    <History size={12} /> Level History
+                </h3>
+                {[...levelHistory].reverse().map(change => (
+                    <div key={change.at} className="flex items-center justify-between text-sm bg-white/5 rounded-xl px-4 py-2.5">
+                        <span className="text-white font-bold">{change.from} → {change.to}</span>
+                        <span className="text-xs text-gray-500">{LEVEL_CHANGE_LABELS[change.reason]} · {formatReportDate(change.at)}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <button
+            onClick={() => { onClose(); setScreen('placement'); }}
+            className="w-full py-4 bg-white/5 border border-white/10 text-gray-200 rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:bg-white/10"
+        >
+            <Compass size={16} /> Retake Placement Test
+        </button>
+
+        <button
+            onClick={() => setShowBackup(true)}
+            className="w-full py-4 bg-white/5 border border-white/10 text-gray-200 rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:bg-white/10"
+        >
+            <HardDrive size={16} /> Backup & Restore
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
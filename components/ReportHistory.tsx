@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart as LineChartIcon, GitCompare, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { CEFRLevel, DetailedReport } from '../types';
+import { CEFR_LEVELS, compareReports, formatReportDate, REPORT_SCORES, reportTrend } from '../services/reports';
+
+const LEVEL_STYLES: Record<CEFRLevel, string> = {
+  A1: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+  A2: 'bg-teal-500/20 text-teal-300 border-teal-500/30',
+  B1: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  B2: 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30',
+  C1: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+  C2: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'
+};
+
+const ChangeBadge: React.FC<{ change: number }> = ({ change }) => (
+  <span className={`inline-flex items-center gap-0.5 font-bold ${change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+    {change > 0 ? <ArrowUp size={12} /> : change < 0 ? <ArrowDown size={12} /> : <Minus size={12} />}
+    {Math.abs(change)}
+  </span>
+);
+
+// Two reports from the history, in date order, with the change in each score
+const ReportComparisonCard: React.FC<{ reports: DetailedReport[] }> = ({ reports }) => {
+  // Defaults to the first report against the latest
+  const [firstAt, setFirstAt] = useState(reports[0].generatedAt);
+  const [secondAt, setSecondAt] = useState(reports[reports.length - 1].generatedAt);
+  const first = reports.find(r => r.generatedAt === firstAt) || reports[0];
+  const second = reports.find(r => r.generatedAt === secondAt) || reports[reports.length - 1];
+  const comparison = compareReports(first, second);
+  const [before, after] = first.generatedAt <= second.generatedAt ? [first, second] : [second, first];
+
+  const picker = (value: number, onChange: (at: number) => void) => (
+    <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full bg-white/5 border border-white/10 text-white text-xs rounded-lg px-2 py-2 focus:outline-none focus:border-primary/50"
+    >
+        {reports.map(r => (
+            <option key={r.generatedAt} value={r.generatedAt} className="bg-black">
+                {formatReportDate(r.generatedAt)} · {r.overallCEFR}
+            </option>
+        ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-5 space-y-4">
+        <div className="flex items-center gap-2">
+            <GitCompare size={16} className="text-primary" />
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Compare Reports</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+            {picker(firstAt, setFirstAt)}
+            {picker(secondAt, setSecondAt)}
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-2 text-sm items-center">
+            <span className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Skill</span>
+            <span className="text-[10px] text-gray-500 uppercase tracking-widest font-bold text-right">{formatReportDate(before.generatedAt)}</span>
+            <span className="text-[10px] text-gray-500 uppercase tracking-widest font-bold text-right">{formatReportDate(after.generatedAt)}</span>
+            <span></span>
+            <span className="text-gray-300">Level</span>
+            <span className="text-right text-white font-bold">{before.overallCEFR}</span>
+            <span className="text-right text-white font-bold">{after.overallCEFR}</span>
+            <ChangeBadge change={comparison.levelChange} />
+            {comparison.scores.map(score => (
+                <React.Fragment key={score.key}>
+                    <span className="text-gray-300">{score.label}</span>
+                    <span className="text-right text-gray-400">{score.before}</span>
+                    <span className="text-right text-white font-bold">{score.after}</span>
+                    <ChangeBadge change={score.change} />
+                </React.Fragment>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+// Every report so far: a line chart per score, the CEFR level over time, and a comparison
+const ReportHistory: React.FC<{ reports: DetailedReport[] }> = ({ reports }) => {
+  if (reports.length < 2) {
+    return (
+      <p className="text-xs text-gray-500 text-center px-6">
+        Generate another report later to see how your scores change over time.
+      </p>
+    );
+  }
+
+  const trend = reportTrend(reports);
+
+  return (
+    <div className="space-y-4">
+        <div className="bg-black/40 backdrop-blur-xl border border-white/10 rounded-3xl p-5 space-y-5">
+            <div className="flex items-center gap-2">
+                <LineChartIcon size={16} className="text-primary" />
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Progress Over Time</h3>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                {REPORT_SCORES.map(({ key, label, color }) => (
+                    <div key={key}>
+                        <div className="flex items-baseline justify-between mb-1">
+                            <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">{label}</p>
+                            <p className="text-sm font-bold" style={{ color }}>{trend[trend.length - 1][key]}</p>
+                        </div>
+                        <div className="h-24">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={trend} margin={{ top: 4, right: 4, bottom: 0, left: -28 }}>
+                                    <CartesianGrid stroke="#222" vertical={false} />
+                                    <XAxis dataKey="date" hide />
+                                    <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tick={{ fill: '#6b7280', fontSize: 9 }} axisLine={false} tickLine={false} />
+                                    <Tooltip
+                                        contentStyle={{ background: '#121212', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, fontSize: 11 }}
+                                        labelStyle={{ color: '#9ca3af' }}
+                                    />
+                                    <Line type="monotone" dataKey={key} name={label} stroke={color} strokeWidth={2} dot={{ r: 2, fill: color }} isAnimationActive={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* CEFR level over time, one chip per report */}
+            <div>
+                <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold mb-2">CEFR Level</p>
+                <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                    {trend.map((point, index) => {
+                        const previous = trend[index - 1];
+                        const step = previous ? CEFR_LEVELS.indexOf(point.level) - CEFR_LEVELS.indexOf(previous.level) : 0;
+                        return (
+                            <div key={point.generatedAt} className="flex flex-col items-center flex-shrink-0">
+                                <span className={`px-2.5 py-1 rounded-lg border text-xs font-bold ${LEVEL_STYLES[point.level]}`}>
+                                    {point.level}
+                                    {step > 0 && <ArrowUp size={10} className="inline ml-0.5" />}
+                                    {step < 0 && <ArrowDown size={10} className="inline ml-0.5" />}
+                                </span>
+                                <span className="text-[9px] text-gray-500 mt-1">{point.date}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+
+        {/* Keyed by count so a new report resets the picks to first vs. latest */}
+        <ReportComparisonCard key={reports.length} reports={reports} />
+    </div>
+  );
+};
+
+export default ReportHistory;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useStore } from '../store';
+import { Volume2, Plus, Check, Loader, X } from 'lucide-react';
+import { VocabWord } from '../types';
+import { getCachedLookup, lookupWord, sentenceAt, tokenizeWords } from '../services/wordLookup';
+import { describeTutorError } from '../services/geminiService';
+import { vocabKey } from '../services/vocabTransfer';
+
+interface Selection {
+  word: string;
+  sentence: string;
+  // Viewport position of the tapped word, for placing the popover
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+const POPOVER_WIDTH = 280;
+
+const WordPopover: React.FC<{ selection: Selection; onSpeak: (text: string) => void; onClose: () => void }> = ({ selection, onSpeak, onClose }) => {
+  const { user, vocabulary, addVocab } = useStore();
+  const level = user?.cefrLevel;
+  const [entry, setEntry] = useState<VocabWord | undefined>(() => level && getCachedLookup(selection.word, level));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (entry || !level) return;
+    let active = true;
+    lookupWord(selection.word, selection.sentence, level)
+      .then(result => active && setEntry(result))
+      .catch(e => active && setError(describeTutorError(e)));
+    return () => { active = false; };
+  }, [selection.word, selection.sentence, level]);
+
+  const inDeck = vocabulary.some(w => vocabKey(w.word) === vocabKey(entry?.word || selection.word));
+  // Below the word, unless that would run off the bottom of the screen
+  const placeBelow = selection.bottom + 220 < window.innerHeight;
+  const left = Math.max(12, Math.min(selection.left, window.innerWidth - POPOVER_WIDTH - 12));
+
+  return (
+    <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+      <div
+        className="absolute bg-[#1a1a1a] border border-white/10 rounded-2xl p-4 shadow-2xl text-left"
+        style={{
+          width: POPOVER_WIDTH,
+          left,
+          ...(placeBelow ? { top: selection.bottom + 8 } : { bottom: window.innerHeight - selection.top + 8 })
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="min-w-0">
+            <p className="font-bold text-white text-lg leading-tight">{entry?.word || selection.word}</p>
+            {entry?.pronunciation && <p className="text-xs text-gray-500 font-mono">/{entry.pronunciation}/</p>}
+          </div>
+          <button onClick={onClose} className="p-1 -mr-1 text-gray-500 hover:text-white"><X size={16} /></button>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-300">{error}</p>
+        ) : !entry ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+            <Loader size={14} className="animate-spin" /> Looking up...
+          </div>
+        ) : (
+          <>
+            {entry.partOfSpeech && <p className="text-[10px] text-blue-400 uppercase tracking-wider mb-1">{entry.partOfSpeech}</p>}
+            <p className="text-sm text-gray-300 leading-relaxed">{entry.definition}</p>
+            {entry.example && <p className="text-xs text-gray-500 italic mt-2">"{entry.example}"</p>}
+          </>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => onSpeak(entry?.word || selection.word)}
+            className="p-2 rounded-full bg-white/5 border border-white/10 text-gray-400 hover:text-white"
+            title="Listen"
+          >
+            <Volume2 size={16} />
+          </button>
+          <button
+            onClick={() => entry && addVocab([{ ...entry, id: `lookup-${Date.now()}`, lastReviewed: Date.now() }])}
+            disabled={!entry || inDeck}
+            className="flex-1 py-2 rounded-full bg-primary/20 border border-primary/40 text-blue-300 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {inDeck ? <><Check size={14} /> In deck</> : <><Plus size={14} /> Add to deck</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Plain text where every English word can be tapped for a definition popover
+const TappableText: React.FC<{ text: string; onSpeak: (text: string) => void }> = ({ text, onSpeak }) => {
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  const handleTap = (e: React.MouseEvent<HTMLSpanElement>, word: string, start: number) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSelection({ word, sentence: sentenceAt(text, start), top: rect.top, bottom: rect.bottom, left: rect.left });
+  };
+
+  return (
+    <>
+      {tokenizeWords(text).map(token => token.isWord ? (
+        <span
+          key={token.start}
+          onClick={(e) => handleTap(e, token.text, token.start)}
+          className={`cursor-pointer rounded hover:bg-white/10 ${selection?.word === token.text ? 'bg-primary/30' : ''}`}
+        >
+          {token.text}
+        </span>
+      ) : (
+        <React.Fragment key={token.start}>{token.text}</React.Fragment>
+      ))}
+      {/* Portalled: bubbles are animated with transforms, which would trap a fixed overlay */}
+      {selection && createPortal(
+        <WordPopover selection={selection} onSpeak={onSpeak} onClose={() => setSelection(null)} />,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default TappableText;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { Search, Star, Volume2, Copy, Check, Trash2, BookPlus, History } from 'lucide-react';
+import { findLanguage } from '../services/languages';
+import { vocabKey } from '../services/vocabTransfer';
+import { groupTranslationsByDay, matchesTranslationQuery, translationToVocab, translationVocabWord } from '../services/translations';
+
+// Saved translations: search, favorites filter, grouped by day, with per-entry actions
+const TranslationHistory: React.FC<{ onSpeak: (text: string) => void }> = ({ onSpeak }) => {
+  const { translations, toggleFavoriteTranslation, deleteTranslation, vocabulary, addVocab } = useStore();
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const visible = translations.filter(t => (!favoritesOnly || t.isFavorite) && matchesTranslationQuery(t, query));
+  const groups = groupTranslationsByDay(visible);
+  const deckWords = new Set(vocabulary.map(w => vocabKey(w.word)));
+
+  const handleCopy = (id: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Search + favorites filter */}
+      <div className="flex gap-2">
+        <div className="flex-1 relative">
+            <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search translations..."
+                className="w-full bg-white/5 border border-white/10 text-white pl-11 pr-4 py-3 rounded-xl focus:outline-none focus:border-primary/50 transition-colors placeholder-gray-600 text-base"
+            />
+        </div>
+        <button
+            onClick={() => setFavoritesOnly(prev => !prev)}
+            className={`px-4 rounded-xl border transition-colors ${
+                favoritesOnly ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'
+            }`}
+            title="Favorites only"
+        >
+            <Star size={18} fill={favoritesOnly ? 'currentColor' : 'none'} />
+        </button>
+      </div>
+
+      {groups.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 opacity-40">
+            <History size={40} className="text-white mb-3" />
+            <p className="text-white text-sm">
+                {translations.length === 0 ? 'No translations yet.' : favoritesOnly ? 'No favorites match.' : 'Nothing matches your search.'}
+            </p>
+        </div>
+      )}
+
+      {groups.map(group => (
+        <div key={group.label} className="space-y-3">
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest ml-1">{group.label}</h3>
+            {group.items.map(t => {
+                const inDeck = deckWords.has(vocabKey(translationVocabWord(t)));
+                return (
+                    <div key={t.id} className="bg-white/5 backdrop-blur-md rounded-xl p-4 border border-white/10">
+                        <div className="flex items-start gap-3">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-xs text-gray-500 mb-1">
+                                    {findLanguage(t.sourceLanguage)?.name || 'Unknown'} · {new Date(t.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </p>
+                                <p className="text-sm text-gray-400 truncate">{t.original}</p>
+                                <p className="text-base text-white font-medium mt-1">{t.enhanced}</p>
+                            </div>
+                            <button
+                                onClick={() => toggleFavoriteTranslation(t.id)}
+                                className={`transition-colors ${t.isFavorite ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-400'}`}
+                            >
+                                <Star size={18} fill={t.isFavorite ? 'currentColor' : 'none'} />
+                            </button>
+                        </div>
+                        <div className="flex items-center gap-4 mt-3 pt-3 border-t border-white/5 text-gray-500">
+                            <button onClick={() => onSpeak(t.enhanced)} className="hover:text-white transition-colors" title="Speak">
+                                <Volume2 size={16} />
+                            </button>
+                            <button onClick={() => handleCopy(t.id, t.enhanced)} className="hover:text-white transition-colors" title="Copy">
+                                {copiedId === t.id ? <Check size={16} /> : <Copy size={16} />}
+                            </button>
+                            <button
+                                onClick={() => addVocab([translationToVocab(t)])}
+                                disabled={inDeck}
+                                className="flex items-center gap-1.5 text-xs font-semibold hover:text-white disabled:text-green-400 transition-colors"
+                            >
+                                {inDeck ? <Check size={16} /> : <BookPlus size={16} />} {inDeck ? 'In vocab' : 'Add to vocab'}
+                            </button>
+                            <button onClick={() => deleteTranslation(t.id)} className="ml-auto hover:text-red-400 transition-colors" title="Delete">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranslationHistory;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { useStore } from '../store';
+import { Check, X, Sparkles } from 'lucide-react';
+
+// Words harvested from the last lessons: accept into the deck or dismiss
+const VocabProposals: React.FC = () => {
+  const { vocabProposals, acceptVocabProposal, dismissVocabProposal } = useStore();
+  if (vocabProposals.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest flex items-center gap-2">
+            <Sparkles size={12} className="text-yellow-400" /> From your lessons
+        </h3>
+        {vocabProposals.length > 1 && (
+            <button
+                onClick={() => vocabProposals.forEach(w => acceptVocabProposal(w.id))}
+                className="text-[10px] font-bold uppercase tracking-widest text-primary hover:text-blue-300"
+            >
+                Add all
+            </button>
+        )}
+      </div>
+
+      {vocabProposals.map(word => (
+        <div key={word.id} className="bg-glass backdrop-blur-sm p-4 rounded-2xl border border-glass-border">
+            <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-baseline gap-2 flex-wrap">
+                        <p className="font-bold text-gray-100">{word.word}</p>
+                        {word.pronunciation && <p className="text-xs text-gray-500 font-mono">/{word.pronunciation}/</p>}
+                        {word.partOfSpeech && <p className="text-[10px] text-blue-400 uppercase tracking-wider">{word.partOfSpeech}</p>}
+                    </div>
+                    <p className="text-sm text-gray-400 mt-1">{word.definition}</p>
+                    {word.indianContextExample && <p className="text-xs text-gray-500 italic mt-2">"{word.indianContextExample}"</p>}
+                </div>
+                <div className="flex flex-col gap-2">
+                    <button
+                        onClick={() => acceptVocabProposal(word.id)}
+                        className="p-2 rounded-full bg-green-500/10 border border-green-500/30 text-green-400 hover:bg-green-500/20"
+                        title="Add to deck"
+                    >
+                        <Check size={16} />
+                    </button>
+                    <button
+                        onClick={() => dismissVocabProposal(word.id)}
+                        className="p-2 rounded-full bg-white/5 border border-white/10 text-gray-500 hover:text-white"
+                        title="Dismiss"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VocabProposals;
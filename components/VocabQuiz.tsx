@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { Volume2, CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import { ReviewGrade, VocabWord } from '../types';
+import { generateQuestion, scoreAnswer, QUIZ_LABELS, QuizResult } from '../services/quiz';
+
+interface VocabQuizProps {
+  word: VocabWord;
+  deck: VocabWord[];
+  onSpeak: (text: string) => void;
+  onGraded: (grade: ReviewGrade) => void;
+}
+
+// One auto-scored question for the card; the grade is reported once the learner moves on.
+// Remount (via key) to get a fresh question.
+const VocabQuiz: React.FC<VocabQuizProps> = ({ word, deck, onSpeak, onGraded }) => {
+  const [question] = useState(() => generateQuestion(word, deck));
+  const [response, setResponse] = useState('');
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  // Listening questions play straight away
+  useEffect(() => {
+    if (question.audio) onSpeak(question.audio);
+  }, [question]);
+
+  const submit = (answer: string) => {
+    if (result || !answer.trim()) return;
+    setResponse(answer);
+    setResult(scoreAnswer(question, answer));
+  };
+
+  return (
+    <div className="w-full min-h-[400px] bg-[#121212] rounded-[32px] border border-white/10 flex flex-col p-8 relative shadow-lg">
+        <span className="self-start px-4 py-1.5 bg-purple-900/20 border border-purple-500/20 text-purple-300 text-[10px] font-bold rounded-full uppercase tracking-widest mb-6">
+            {QUIZ_LABELS[question.kind]}
+        </span>
+
+        {question.audio ? (
+            <button
+                onClick={() => onSpeak(question.audio!)}
+                className="self-center p-6 mb-6 bg-white/5 border border-white/10 rounded-full text-gray-300 hover:text-white hover:bg-white/10 transition-all active:scale-95"
+            >
+                <Volume2 size={36} />
+            </button>
+        ) : (
+            <p className={`text-white mb-6 ${question.kind === 'cloze' ? 'text-lg leading-relaxed' : 'text-3xl font-bold tracking-tight'}`}>
+                {question.prompt}
+            </p>
+        )}
+        {question.audio && <p className="text-sm text-gray-500 text-center mb-6">{question.prompt}</p>}
+
+        {question.options ? (
+            <div className="space-y-2">
+                {question.options.map(option => {
+                    const isAnswer = option === question.answer;
+                    const isChosen = option === response;
+                    return (
+                        <button
+                            key={option}
+                            onClick={() => submit(option)}
+                            disabled={!!result}
+                            className={`w-full text-left px-4 py-3 rounded-xl border text-sm transition-colors ${
+                                result && isAnswer ? 'bg-green-500/15 border-green-500/50 text-green-300'
+                                : result && isChosen ? 'bg-red-500/15 border-red-500/50 text-red-300'
+                                : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                            }`}
+                        >
+                            {option}
+                        </button>
+                    );
+                })}
+            </div>
+        ) : (
+            <form onSubmit={(e) => { e.preventDefault(); submit(response); }} className="flex gap-2">
+                <input
+                    type="text"
+                    value={response}
+                    onChange={(e) => setResponse(e.target.value)}
+                    disabled={!!result}
+                    autoFocus
+                    autoCapitalize="none"
+                    autoCorrect="off"
+                    spellCheck={false}
+                    placeholder="Type your answer..."
+                    className="flex-1 bg-white/5 border border-white/10 text-white px-4 py-3 rounded-xl focus:outline-none focus:border-primary/50 transition-colors placeholder-gray-600 text-base"
+                />
+                {!result && (
+                    <button type="submit" disabled={!response.trim()} className="px-4 bg-primary text-white rounded-xl disabled:opacity-50">
+                        <ArrowRight size={18} />
+                    </button>
+                )}
+            </form>
+        )}
+
+        {result && (
+            <div className="mt-6 space-y-4">
+                <div className={`flex items-start gap-2 text-sm ${result.correct ? 'text-green-400' : 'text-red-400'}`}>
+                    {result.correct ? <CheckCircle size={18} className="flex-shrink-0" /> : <XCircle size={18} className="flex-shrink-0" />}
+                    <p>
+                        {result.correct ? (result.grade === 'hard' ? 'Almost! Check the spelling: ' : 'Correct: ') : 'The answer was: '}
+                        <span className="font-bold">{question.answer}</span>
+                    </p>
+                </div>
+                <button
+                    onClick={() => onGraded(result.grade)}
+                    className="w-full py-3 bg-white text-black rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2"
+                >
+                    Continue <ArrowRight size={16} />
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default VocabQuiz;
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../store';
+import { Upload, Download, X, FileText, AlertTriangle } from 'lucide-react';
+import { exportVocabularyAnki, exportVocabularyCsv, importVocabulary, VocabImportResult } from '../services/vocabTransfer';
+import { downloadTextFile } from '../services/files';
+
+// Bottom sheet for importing word lists and exporting the deck
+const VocabTransferPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { vocabulary, addVocab, user } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<VocabImportResult | null>(null);
+
+  const filePrefix = `${(user?.name || 'ECHO').replace(/\s+/g, '_')}_vocabulary`;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    const imported = importVocabulary(await file.text(), vocabulary);
+    if (imported.words.length > 0) addVocab(imported.words);
+    setResult(imported);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-end justify-center" onClick={onClose}>
+      <div className="w-full max-w-lg bg-[#121212] border-t border-white/10 rounded-t-3xl p-6 pb-10 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white">Import & Export</h2>
+            <button onClick={onClose} className="p-2 -mr-2 text-gray-500 hover:text-white"><X size={20} /></button>
+        </div>
+
+        {/* Import */}
+        <div className="space-y-2">
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2"
+            >
+                <Upload size={16} /> Import CSV / TSV
+            </button>
+            <p className="text-[11px] text-gray-500 leading-relaxed">
+                Columns: word, definition, example, then optionally pronunciation, part of speech and Indian context example.
+                A header row with these names can put them in any order.
+            </p>
+            <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" onChange={handleFile} />
+        </div>
+
+        {result && (
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-2 text-sm">
+                <p className="text-green-400 font-bold">{result.words.length} word{result.words.length === 1 ? '' : 's'} added</p>
+                {result.duplicates.length > 0 && (
+                    <p className="text-gray-400">
+                        Skipped {result.duplicates.length} duplicate{result.duplicates.length === 1 ? '' : 's'}: {result.duplicates.slice(0, 5).join(', ')}{result.duplicates.length > 5 ? '…' : ''}
+                    </p>
+                )}
+                {result.errors.length > 0 && (
+                    <div className="flex items-start gap-2 text-red-300">
+                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        <p>{result.errors.slice(0, 3).join(' ')}{result.errors.length > 3 ? ` (+${result.errors.length - 3} more)` : ''}</p>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Export */}
+        <div className="grid grid-cols-2 gap-3">
+            <button
+                onClick={() => downloadTextFile(`${filePrefix}.csv`, exportVocabularyCsv(vocabulary), 'text/csv;charset=utf-8')}
+                disabled={vocabulary.length === 0}
+                className="py-4 bg-white/5 border border-white/10 text-gray-200 rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:bg-white/10 disabled:opacity-40"
+            >
+                <Download size={16} /> CSV
+            </button>
+            <button
+                onClick={() => downloadTextFile(`${filePrefix}_anki.txt`, exportVocabularyAnki(vocabulary), 'text/plain;charset=utf-8')}
+                disabled={vocabulary.length === 0}
+                className="py-4 bg-white/5 border border-white/10 text-gray-200 rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:bg-white/10 disabled:opacity-40"
+            >
+                <FileText size={16} /> Anki
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabTransferPanel;
@@ -1,8 +1,12 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useStore } from '../store';
-import { Send, Mic, Volume2, RotateCcw, StopCircle, ArrowLeft, Radio, Activity, MicOff, AlertTriangle } from 'lucide-react';
-import { sendMessageToTutor, startChatSession } from '../services/geminiService';
+import { Send, Mic, Volume2, RotateCcw, StopCircle, ArrowLeft, Radio, Activity, MicOff, AlertTriangle, CheckCircle2, History } from 'lucide-react';
+import { startChatSession, TutorSession } from '../services/geminiService';
 import { motion, AnimatePresence } from 'framer-motion';
+import { CEFRLevel } from '../types';
+import { HighlightedText, CorrectionList } from '../components/CorrectionHighlights';
+import TappableText from '../components/TappableText';
+import { findLesson, getNextLesson, getUnitsForLevel, LESSON_COMPLETION_TURNS } from '../services/curriculum';
 
 // Types for Web Speech API
 interface IWindow extends Window {
@@ -10,9 +14,35 @@ interface IWindow extends Window {
   SpeechRecognition: any;
 }
 
+// Splits off the sentences in text[from..] that are finished (terminal punctuation followed by a space).
+// The trailing, still-growing sentence is left for the next chunk unless isFinal is set.
+const takeFinishedSentences = (text: string, from: number, isFinal: boolean): { sentences: string[]; next: number } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*\s+/g;
+  boundary.lastIndex = from;
+  let next = from;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const sentence = text.slice(next, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    next = match.index + match[0].length;
+  }
+  if (isFinal && next < text.length) {
+    const rest = text.slice(next).trim();
+    if (rest) sentences.push(rest);
+    next = text.length;
+  }
+  return { sentences, next };
+};
+
 const ChatScreen: React.FC = () => {
-  const { chatHistory, addMessage, clearChat, user, setScreen } = useStore();
+  const { chatHistory, addMessage, updateMessage, startSession, endSession, user, setScreen, completedLessons, completeLesson } = useStore();
   const [inputText, setInputText] = useState('');
+
+  // Curriculum: the learner can pick any lesson of their level; the next one due is preselected
+  const level = user?.cefrLevel || CEFRLevel.A1;
+  const [selectedLessonId, setSelectedLessonId] = useState(() => getNextLesson(level, completedLessons).id);
+  const selectedLesson = findLesson(selectedLessonId) || getNextLesson(level, completedLessons);
   
   // States for the Conversation Loop
   const [sessionActive, setSessionActive] = useState(false);
@@ -20,10 +50,19 @@ const ChatScreen: React.FC = () => {
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isSupported, setIsSupported] = useState(true);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
   const synthesisRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  // The live lesson: holds the topic and rolling summary for as long as the lesson runs
+  const tutorSessionRef = useRef<TutorSession | null>(null);
+  const lessonTurnsRef = useRef(0);
+
+  // Sentence queue for streamed replies: how many utterances are still pending,
+  // whether the stream has finished, and what to do once everything has been spoken
+  const speechQueueRef = useRef<{ pending: number; streamDone: boolean; onDrained?: () => void }>({ pending: 0, streamDone: true });
   
   // Wake Lock Ref
   const wakeLockRef = useRef<any>(null);
@@ -42,9 +81,9 @@ const ChatScreen: React.FC = () => {
     loadVoices();
     window.speechSynthesis.onvoiceschanged = loadVoices;
     
-    // Auto-clear chat
-    clearChat();
-  }, [clearChat]);
+    // A lesson left running when the app closed goes to the archive
+    endSession();
+  }, [endSession]);
 
   // --- 1. Wake Lock Logic ---
   useEffect(() => {
@@ -86,7 +125,7 @@ const ChatScreen: React.FC = () => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [chatHistory, isProcessing, isListening, isSpeaking]);
+  }, [chatHistory, streamingText, isProcessing, isListening, isSpeaking]);
 
   // --- Helper: Unlock Mobile Audio ---
   const unlockAudio = () => {
@@ -156,11 +195,8 @@ const ChatScreen: React.FC = () => {
   };
 
   // --- 4. Text-to-Speech (TTS) ---
-  const speak = useCallback((text: string, onEndCallback?: () => void) => {
-    window.speechSynthesis.cancel(); // Stop anything current
-
+  const createUtterance = (text: string) => {
     const utterance = new SpeechSynthesisUtterance(text);
-    synthesisRef.current = utterance;
     
     utterance.lang = 'en-US';
     utterance.rate = 1.0; // Standard speed for teaching clarity
@@ -173,6 +209,16 @@ const ChatScreen: React.FC = () => {
     ) || voices[0];
     if (preferredVoice) utterance.voice = preferredVoice;
 
+    return utterance;
+  };
+
+  const speak = useCallback((text: string, onEndCallback?: () => void) => {
+    speechQueueRef.current = { pending: 0, streamDone: true }; // Drop any streamed sentences
+    window.speechSynthesis.cancel(); // Stop anything current
+
+    const utterance = createUtterance(text);
+    synthesisRef.current = utterance;
+
     utterance.onstart = () => setIsSpeaking(true);
     utterance.onend = () => {
         setIsSpeaking(false);
@@ -186,29 +232,73 @@ const ChatScreen: React.FC = () => {
     window.speechSynthesis.speak(utterance);
   }, []);
 
+  // Streamed replies: queue each finished sentence without cancelling the ones before it
+  const startSpeechQueue = (onDrained?: () => void) => {
+    speechQueueRef.current = { pending: 0, streamDone: false, onDrained };
+    window.speechSynthesis.cancel();
+  };
+
+  const finishSpeechQueue = () => {
+    const queue = speechQueueRef.current;
+    queue.streamDone = true;
+    if (queue.pending === 0) {
+        setIsSpeaking(false);
+        queue.onDrained?.();
+    }
+  };
+
+  const enqueueSentence = (sentence: string) => {
+    const queue = speechQueueRef.current;
+    const utterance = createUtterance(sentence);
+    synthesisRef.current = utterance;
+    queue.pending += 1;
+
+    const handleDone = () => {
+        // Ignore callbacks from a queue that was replaced by speak() or a new stream
+        if (speechQueueRef.current !== queue) return;
+        queue.pending -= 1;
+        if (queue.pending === 0 && queue.streamDone) {
+            setIsSpeaking(false);
+            queue.onDrained?.();
+        }
+    };
+    utterance.onstart = () => setIsSpeaking(true);
+    utterance.onend = handleDone;
+    utterance.onerror = handleDone; // Fail gracefully
+
+    window.speechSynthesis.speak(utterance);
+  };
+
   // --- 5. Core Loop Logic ---
   
   // Triggered when the user hits "Start Session"
   const handleStartSession = async () => {
     unlockAudio(); // Critical for Mobile iOS
-    clearChat(); // NEW SESSION: Clear previous history on UI to simulate fresh lesson
+    startSession(selectedLesson.title, selectedLesson.id); // Archives the previous lesson, if any
     setSessionActive(true);
     
     // New Session: Initialize with AI
     setIsProcessing(true);
+    lessonTurnsRef.current = 0;
     try {
-        const response = await startChatSession(user?.name || 'Student', user?.cefrLevel || 'A1');
+        const session = await startChatSession({
+            name: user?.name || 'Student',
+            cefrLevel: level,
+            nativeLanguage: user?.nativeLanguage,
+            goals: user?.goals
+        }, selectedLesson);
+        tutorSessionRef.current = session;
         
         const botMsg = {
             id: Date.now().toString(),
             role: 'model' as const,
-            text: response.text,
+            text: session.openingText,
             timestamp: Date.now()
         };
         addMessage(botMsg);
         
         // AUTO-LOOP: Speak -> Then Listen
-        speak(response.text, () => {
+        speak(session.openingText, () => {
             // Wait a tiny bit before opening mic to avoid catching system echo
             setTimeout(() => startListening(), 500); 
         });
@@ -223,7 +313,8 @@ const ChatScreen: React.FC = () => {
   // Triggered when User Sends a message (Voice or Text)
   const handleSend = async () => {
     // Prevent sending empty or duplicate sends if already processing
-    if (!inputText.trim() || isProcessing) return;
+    const session = tutorSessionRef.current;
+    if (!inputText.trim() || isProcessing || !session) return;
 
     // 1. Add User Message
     const textToSend = inputText;
@@ -240,29 +331,58 @@ const ChatScreen: React.FC = () => {
     stopListening();
     setIsProcessing(true);
 
+    // 3. Speak each sentence as soon as it is complete -> Then Loop Back to Listening
+    let spokenUpTo = 0;
+    let streamed = '';
+    if (sessionActive) {
+        startSpeechQueue(() => {
+            setTimeout(() => startListening(), 500);
+        });
+    }
+
     try {
-        // 3. Get AI Response
-        const response = await sendMessageToTutor(chatHistory, textToSend);
+        // 4. Stream AI Response into a live bubble
+        setStreamingText('');
+        const response = await session.streamMessage(textToSend, (partial) => {
+            streamed = partial;
+            setStreamingText(partial);
+            if (sessionActive) {
+                const { sentences, next } = takeFinishedSentences(partial, spokenUpTo, false);
+                spokenUpTo = next;
+                sentences.forEach(enqueueSentence);
+            }
+        });
 
+        // 5. Corrections attach to the user's message once the stream completes
+        if (response.corrections.length > 0) {
+            updateMessage(userMsg.id, { corrections: response.corrections });
+        }
         const botMsg = {
           id: (Date.now() + 1).toString(),
           role: 'model' as const,
           text: response.text,
-          timestamp: Date.now(),
-          correction: response.correction
+          timestamp: Date.now()
         };
         addMessage(botMsg);
 
-        // 4. Speak AI Response -> Then Loop Back to Listening
+        lessonTurnsRef.current += 1;
+        if (lessonTurnsRef.current === LESSON_COMPLETION_TURNS) {
+            completeLesson(selectedLesson.id);
+        }
+
         if (sessionActive) {
-            speak(response.text, () => {
-                setTimeout(() => startListening(), 500);
-            });
+            // The final text can differ from the streamed one (e.g. a fallback message)
+            if (response.text.startsWith(streamed.slice(0, spokenUpTo))) {
+                takeFinishedSentences(response.text, spokenUpTo, true).sentences.forEach(enqueueSentence);
+            }
+            finishSpeechQueue();
         }
 
     } catch (error) {
         console.error("Chat error", error);
+        if (sessionActive) finishSpeechQueue();
     } finally {
+        setStreamingText(null);
         setIsProcessing(false);
     }
   };
@@ -280,6 +400,7 @@ const ChatScreen: React.FC = () => {
   // Clean up on unmount
   useEffect(() => {
     return () => {
+        speechQueueRef.current = { pending: 0, streamDone: true };
         window.speechSynthesis.cancel();
         if (recognitionRef.current) try { recognitionRef.current.stop(); } catch(e) {}
     };
@@ -311,6 +432,37 @@ const ChatScreen: React.FC = () => {
                     </div>
                     <h2 className="text-2xl font-bold text-white mb-2">Start Lesson</h2>
                     <p className="text-gray-400 max-w-xs">Tap to begin your professional tutoring session.</p>
+                    <button
+                        onClick={() => setScreen('sessions')}
+                        className="mt-4 px-4 py-2 rounded-full bg-white/5 border border-white/10 text-xs text-gray-300 font-bold uppercase tracking-widest flex items-center gap-2 hover:bg-white/10"
+                    >
+                        <History size={14} /> Past Lessons
+                    </button>
+
+                    {/* Lesson picker for the learner's level */}
+                    <div className="mt-6 w-full max-w-sm max-h-[40vh] overflow-y-auto text-left space-y-4">
+                        {getUnitsForLevel(level).map(unit => (
+                            <div key={unit.id}>
+                                <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold mb-2">{unit.title}</p>
+                                <div className="space-y-2">
+                                    {unit.lessons.map(lesson => (
+                                        <button
+                                            key={lesson.id}
+                                            onClick={() => setSelectedLessonId(lesson.id)}
+                                            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl border text-sm transition-colors ${
+                                                lesson.id === selectedLesson.id
+                                                ? 'bg-primary/20 border-primary/60 text-white'
+                                                : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                                            }`}
+                                        >
+                                            <span className="flex-1 font-medium">{lesson.title}</span>
+                                            {completedLessons[lesson.id] && <CheckCircle2 size={16} className="text-green-400" />}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
                 </>
               )}
           </div>
@@ -321,6 +473,7 @@ const ChatScreen: React.FC = () => {
         <div className="flex items-center gap-3">
           <button 
              onClick={() => {
+                 endSession();
                  setSessionActive(false);
                  setScreen('dashboard');
              }}
@@ -356,8 +509,11 @@ const ChatScreen: React.FC = () => {
         </div>
         <button 
             onClick={() => {
+                speechQueueRef.current = { pending: 0, streamDone: true };
                 window.speechSynthesis.cancel();
-                clearChat();
+                tutorSessionRef.current = null;
+                endSession();
+                setSelectedLessonId(getNextLesson(level, useStore.getState().completedLessons).id);
                 setSessionActive(false); // Force restart overlay
             }} 
             className="p-2 text-gray-500 hover:text-white transition-colors"
@@ -388,7 +544,9 @@ const ChatScreen: React.FC = () => {
                     ? 'bg-primary/90 text-white rounded-br-none shadow-[0_0_15px_rgba(59,130,246,0.3)]' 
                     : 'bg-white/5 backdrop-blur-md border border-white/10 text-gray-200 rounded-bl-none'
                 }`}>
-                <p className="text-sm leading-relaxed font-medium">{msg.text}</p>
+                <p className="text-sm leading-relaxed font-medium">
+                    {msg.role === 'user' ? <HighlightedText text={msg.text} corrections={msg.corrections} /> : <TappableText text={msg.text} onSpeak={(text) => speak(text)} />}
+                </p>
                 
                 {msg.role === 'model' && (
                     <button onClick={() => speak(msg.text)} className="absolute -right-8 top-2 p-1.5 rounded-full bg-white/5 text-gray-400 hover:text-primary transition-colors">
@@ -396,29 +554,29 @@ const ChatScreen: React.FC = () => {
                     </button>
                 )}
 
-                {msg.correction && (
-                    <div className="mt-3 pt-3 border-t border-white/10 bg-black/20 -mx-4 -mb-4 px-4 pb-4 rounded-b-2xl">
-                    <div className="flex items-center gap-2 mb-1 mt-2">
-                        <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span>
-                        <p className="text-xs text-red-400 line-through opacity-70 italic">"{msg.correction.original}"</p>
-                    </div>
-                    <div className="flex items-center gap-2 mb-2">
-                        <span className="w-1.5 h-1.5 rounded-full bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]"></span>
-                        <p className="text-sm text-green-400 font-bold">{msg.correction.corrected}</p>
-                    </div>
-                    {msg.correction.explanation && (
-                         <p className="text-[10px] text-gray-400 ml-3.5 border-l border-gray-600 pl-2">{msg.correction.explanation}</p>
-                    )}
-                    </div>
+                {msg.corrections && msg.corrections.length > 0 && (
+                    <CorrectionList corrections={msg.corrections} />
                 )}
                 </div>
             </motion.div>
             ))}
         </AnimatePresence>
+
+        {/* Live bubble while the tutor reply is streaming in */}
+        {streamingText && (
+            <div className="flex justify-start">
+                <div className="max-w-[85%] rounded-2xl p-4 relative bg-white/5 backdrop-blur-md border border-white/10 text-gray-200 rounded-bl-none">
+                    <p className="text-sm leading-relaxed font-medium">
+                        {streamingText}
+                        <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-primary/70 animate-pulse"></span>
+                    </p>
+                </div>
+            </div>
+        )}
         
         {/* Processing / Listening Indicators */}
         <div className="h-10">
-            {isProcessing && (
+            {isProcessing && !streamingText && (
                 <div className="flex items-center gap-2 text-primary ml-2">
                      <span className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce"></span>
                      <span className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce delay-75"></span>
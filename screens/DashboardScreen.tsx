@@ -1,30 +1,48 @@
 import React, { useEffect, useState } from 'react';
 import { useStore } from '../store';
 import { Zap, BookOpen, Trophy, Sun, Moon, ArrowRight, Activity, Loader, LogOut, Info } from 'lucide-react';
-import { MessageCircle, Globe } from 'lucide-react';
-import { generateDailyVocab } from '../services/geminiService';
+import { MessageCircle, Globe, AudioLines, History } from 'lucide-react';
+import { generateDailyVocab, describeTutorError } from '../services/geminiService';
+import VocabProposals from '../components/VocabProposals';
+import DailyVocabBatches from '../components/DailyVocabBatches';
+import ProfilePanel from '../components/ProfilePanel';
+import { batchWords, findBatch, getTodayString } from '../services/dailyVocab';
 
 const DashboardScreen: React.FC = () => {
-  const { user, isDarkMode, toggleDarkMode, setScreen, vocabulary, addVocab, isVocabLoading, setVocabLoading, logout } = useStore();
+  const { user, isDarkMode, toggleDarkMode, setScreen, sessions, vocabulary, vocabBatches, addVocabBatch, dailyBatchSize, isVocabLoading, setVocabLoading, logout } = useStore();
   const [showStreakInfo, setShowStreakInfo] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [vocabError, setVocabError] = useState<string | null>(null);
   
+  const fetchVocab = async () => {
+      if (!user) return;
+      const { activeProfileId } = useStore.getState();
+      setVocabLoading(true);
+      setVocabError(null);
+      try {
+          const words = await generateDailyVocab(user.cefrLevel, {
+              size: dailyBatchSize,
+              knownWords: vocabulary.map(w => w.word)
+          });
+          // Drop the words if the learner switched profile meanwhile; the new one fetches its own
+          if (useStore.getState().activeProfileId === activeProfileId) addVocabBatch(getTodayString(), user.cefrLevel, words);
+      } catch (e) {
+          console.error(e);
+          setVocabError(describeTutorError(e));
+      } finally {
+          setVocabLoading(false);
+      }
+  };
+
+  const todayBatch = findBatch(vocabBatches, getTodayString());
+  const todayCount = todayBatch ? batchWords(todayBatch, vocabulary).length : 0;
+
   useEffect(() => {
-    const fetchVocab = async () => {
-        if (vocabulary.length === 0 && user && !isVocabLoading) {
-            setVocabLoading(true);
-            try {
-                const words = await generateDailyVocab(user.cefrLevel);
-                if(words.length > 0) addVocab(words);
-            } catch (e) {
-                console.error(e);
-            } finally {
-                setVocabLoading(false);
-            }
-        }
-    };
-
-    fetchVocab();
-  }, [vocabulary.length, user, addVocab, setVocabLoading]);
+    // One batch per day; after a failure the learner retries from the card
+    if (!todayBatch && user && !isVocabLoading && !vocabError) {
+        fetchVocab();
+    }
+  }, [todayBatch, user, isVocabLoading, vocabError, fetchVocab]);
 
   const StatCard = ({ icon: Icon, label, value, colorClass, onClick }: any) => (
     <div onClick={onClick} className={`bg-glass backdrop-blur-md p-4 rounded-2xl border border-glass-border flex flex-col justify-between h-28 relative overflow-hidden group ${onClick ? 'cursor-pointer active:scale-95 transition-transform' : ''}`}>
@@ -60,6 +78,8 @@ const DashboardScreen: React.FC = () => {
           </div>
       )}
 
+      {showProfile && <ProfilePanel onClose={() => setShowProfile(false)} />}
+
       {/* Cinematic Header */}
       <div className="flex justify-between items-end">
         <div>
@@ -78,14 +98,14 @@ const DashboardScreen: React.FC = () => {
                 {isDarkMode ? <Sun size={18} className="text-yellow-500" /> : <Moon size={18} className="text-gray-400" />}
             </button>
             
-            <button onClick={logout} className="p-3 rounded-full bg-white/5 border border-white/10 hover:bg-red-500/10 hover:text-red-400 text-gray-400 transition-colors" title="Log Out">
+            <button onClick={logout} className="p-3 rounded-full bg-white/5 border border-white/10 hover:bg-red-500/10 hover:text-red-400 text-gray-400 transition-colors" title="Switch Profile">
                 <LogOut size={18} />
             </button>
 
-            <div className="w-12 h-12 bg-gradient-to-br from-gray-800 to-black rounded-full border border-white/10 flex items-center justify-center text-2xl shadow-lg relative">
+            <button onClick={() => setShowProfile(true)} className="w-12 h-12 bg-gradient-to-br from-gray-800 to-black rounded-full border border-white/10 flex items-center justify-center text-2xl shadow-lg relative" title="Profile">
                 {user?.avatar}
                 <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 border-2 border-black rounded-full"></div>
-            </div>
+            </button>
         </div>
       </div>
 
@@ -103,7 +123,7 @@ const DashboardScreen: React.FC = () => {
       </div>
 
       {/* Hero Card - Daily Vocab */}
-      <div className="relative w-full rounded-3xl overflow-hidden border border-white/10 group cursor-pointer shadow-glow-sm transition-all" onClick={() => setScreen('vocabulary')}>
+      <div className="relative w-full rounded-3xl overflow-hidden border border-white/10 group cursor-pointer shadow-glow-sm transition-all" onClick={() => vocabError ? fetchVocab() : setScreen('vocabulary')}>
         <div className="absolute inset-0 bg-gradient-to-r from-blue-900/80 to-black/80 z-0"></div>
         <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/stardust.png')] opacity-30 z-0"></div>
         
@@ -121,18 +141,22 @@ const DashboardScreen: React.FC = () => {
             
             <div>
                 <h2 className="text-xl font-bold text-white mb-2">Vocabulary Update</h2>
-                <p className="text-gray-400 text-sm mb-4">
-                    {isVocabLoading ? "Establishing secure uplink to database..." : "3 new data points available for acquisition."}
+                <p className={`text-sm mb-4 ${vocabError && !isVocabLoading ? 'text-red-300' : 'text-gray-400'}`}>
+                    {isVocabLoading ? "Establishing secure uplink to database..." : vocabError || `${todayCount} new data point${todayCount === 1 ? '' : 's'} available for acquisition.`}
                 </p>
                 
                 <div className="flex items-center text-blue-400 text-sm font-semibold group-hover:translate-x-1 transition-transform">
-                    {isVocabLoading ? "Processing..." : "Start Lesson"} 
+                    {isVocabLoading ? "Processing..." : vocabError ? "Tap to Retry" : "Start Lesson"} 
                     {!isVocabLoading && <ArrowRight size={16} className="ml-2" />}
                 </div>
             </div>
         </div>
       </div>
 
+      <DailyVocabBatches />
+
+      <VocabProposals />
+
       {/* Quick Actions List */}
       <div className="space-y-4">
         <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest ml-1">Modules</h3>
@@ -155,6 +179,44 @@ const DashboardScreen: React.FC = () => {
           </div>
         </button>
 
+        {sessions.length > 0 && (
+          <button
+            onClick={() => setScreen('sessions')}
+            className="w-full bg-glass backdrop-blur-sm p-5 rounded-2xl border border-glass-border flex items-center justify-between hover:bg-white/5 transition-all group"
+          >
+            <div className="flex items-center gap-5">
+              <div className="p-3 bg-amber-500/10 rounded-xl border border-amber-500/20 text-amber-400 group-hover:scale-110 transition-transform">
+                <History size={24} />
+              </div>
+              <div className="text-left">
+                <p className="font-bold text-gray-200">Lesson Archive</p>
+                <p className="text-xs text-gray-500 mt-0.5">{sessions.length} past lesson{sessions.length === 1 ? '' : 's'}</p>
+              </div>
+            </div>
+            <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-white/10">
+              <ArrowRight size={16} className="text-gray-400" />
+            </div>
+          </button>
+        )}
+
+        <button 
+          onClick={() => setScreen('pronunciation')}
+          className="w-full bg-glass backdrop-blur-sm p-5 rounded-2xl border border-glass-border flex items-center justify-between hover:bg-white/5 transition-all group"
+        >
+          <div className="flex items-center gap-5">
+            <div className="p-3 bg-pink-500/10 rounded-xl border border-pink-500/20 text-pink-400 group-hover:scale-110 transition-transform">
+              <AudioLines size={24} />
+            </div>
+            <div className="text-left">
+              <p className="font-bold text-gray-200">Pronunciation Lab</p>
+              <p className="text-xs text-gray-500 mt-0.5">Read-Aloud Scoring</p>
+            </div>
+          </div>
+          <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-white/10">
+            <ArrowRight size={16} className="text-gray-400" />
+          </div>
+        </button>
+
         <button 
             onClick={() => setScreen('translator')}
             className="w-full bg-glass backdrop-blur-sm p-5 rounded-2xl border border-glass-border flex items-center justify-between hover:bg-white/5 transition-all group"
@@ -165,7 +227,7 @@ const DashboardScreen: React.FC = () => {
             </div>
             <div className="text-left">
               <p className="font-bold text-gray-200">Translation Matrix</p>
-              <p className="text-xs text-gray-500 mt-0.5">Hindi-English Interface</p>
+              <p className="text-xs text-gray-500 mt-0.5">Indian Languages to English</p>
             </div>
           </div>
           <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-white/10">
@@ -1,19 +1,45 @@
 import React, { useState } from 'react';
 import { useStore } from '../store';
-import { Sparkles, ArrowRight } from 'lucide-react';
+import { Sparkles, ArrowRight, Plus, Trash2 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { NATIVE_LANGUAGE_OPTIONS } from '../services/languages';
 
 const AVATARS = ['👨‍💻', '👩‍🎨', '🦸‍♂️', '👩‍🚀', '🧘', '🕵️‍♀️'];
+const LEARNER_GOALS = ['Job interviews', 'Office communication', 'Daily conversation', 'Travel', 'IELTS / TOEFL'];
 
 const LoginScreen: React.FC = () => {
-  const login = useStore((state) => state.login);
+  const { login, profiles, switchProfile, deleteProfile } = useStore();
+  // With saved profiles the screen opens on the profile list; the form creates a new one
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [selectedAvatar, setSelectedAvatar] = useState(AVATARS[0]);
+  const [nativeLanguage, setNativeLanguage] = useState(NATIVE_LANGUAGE_OPTIONS[0]);
+  const [goals, setGoals] = useState<string[]>([]);
+
+  const toggleGoal = (goal: string) => {
+    setGoals(prev => prev.includes(goal) ? prev.filter(g => g !== goal) : [...prev, goal]);
+  };
+
+  const nameTaken = profiles.some(p => p.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const handleDelete = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    deleteProfile(id);
+    setPendingDeleteId(null);
+    if (profiles.length === 1) setIsCreating(true);
+  };
 
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
-    if (name.trim()) {
-      login(name, selectedAvatar);
+    if (name.trim() && !nameTaken) {
+      login(name.trim(), selectedAvatar, {
+        nativeLanguage: nativeLanguage === 'Other' ? undefined : nativeLanguage,
+        goals
+      });
     }
   };
 
@@ -41,6 +67,37 @@ const LoginScreen: React.FC = () => {
                 <p className="text-center text-gray-400 mt-2 text-sm uppercase tracking-widest font-medium">AI English Tutor</p>
             </div>
 
+            {!isCreating ? (
+            <div className="space-y-4">
+                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider text-center">Who's learning?</label>
+                {profiles.map(profile => (
+                    <div key={profile.id} className="flex items-center gap-2">
+                        <button
+                            onClick={() => switchProfile(profile.id)}
+                            className="flex-1 flex items-center gap-4 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 hover:bg-white/10 hover:border-primary/50 transition-all group"
+                        >
+                            <span className="text-2xl">{profile.avatar}</span>
+                            <span className="font-bold text-white flex-1 text-left truncate">{profile.name}</span>
+                            <ArrowRight size={18} className="text-gray-500 group-hover:text-white group-hover:translate-x-1 transition-all" />
+                        </button>
+                        <button
+                            onClick={() => handleDelete(profile.id)}
+                            onBlur={() => setPendingDeleteId(null)}
+                            className={`p-3 rounded-2xl border transition-colors ${pendingDeleteId === profile.id ? 'bg-red-500/20 border-red-500/50 text-red-300 text-xs font-bold' : 'bg-white/5 border-white/10 text-gray-500 hover:text-red-400'}`}
+                            title="Delete profile"
+                        >
+                            {pendingDeleteId === profile.id ? 'Delete?' : <Trash2 size={16} />}
+                        </button>
+                    </div>
+                ))}
+                <button
+                    onClick={() => setIsCreating(true)}
+                    className="w-full flex items-center justify-center gap-2 border border-dashed border-white/20 rounded-2xl py-4 text-sm font-bold text-gray-400 hover:text-white hover:border-white/40 transition-colors"
+                >
+                    <Plus size={16} /> New Profile
+                </button>
+            </div>
+            ) : (
             <form onSubmit={handleLogin} className="space-y-8">
             <div>
                 <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-4 text-center">Select Identity</label>
@@ -76,18 +133,57 @@ const LoginScreen: React.FC = () => {
                     required
                     />
                 </div>
+                {nameTaken && <p className="text-xs text-orange-300 ml-1">A profile with this name already exists on this device.</p>}
+            </div>
+
+            <div className="space-y-2">
+                <label htmlFor="nativeLanguage" className="block text-xs font-semibold text-gray-500 uppercase tracking-wider ml-1">Native Language</label>
+                <select
+                    id="nativeLanguage"
+                    value={nativeLanguage}
+                    onChange={(e) => setNativeLanguage(e.target.value)}
+                    className="w-full bg-black/80 border border-white/10 text-white px-5 py-4 rounded-xl focus:outline-none focus:border-primary/50 transition-colors text-base"
+                >
+                    {NATIVE_LANGUAGE_OPTIONS.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                </select>
+            </div>
+
+            <div className="space-y-2">
+                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider ml-1">Goals (optional)</label>
+                <div className="flex flex-wrap gap-2">
+                {LEARNER_GOALS.map(goal => (
+                    <button
+                    key={goal}
+                    type="button"
+                    onClick={() => toggleGoal(goal)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-all ${
+                        goals.includes(goal)
+                        ? 'bg-primary/20 border border-primary text-white'
+                        : 'bg-white/5 border border-white/10 text-gray-400 hover:bg-white/10'
+                    }`}
+                    >
+                    {goal}
+                    </button>
+                ))}
+                </div>
             </div>
 
             <button
                 type="submit"
-                disabled={!name.trim()}
+                disabled={!name.trim() || nameTaken}
                 className="w-full group relative flex items-center justify-center space-x-2 bg-white text-black font-bold py-4 px-6 rounded-xl transition-all hover:shadow-[0_0_30px_rgba(255,255,255,0.3)] disabled:opacity-50 disabled:cursor-not-allowed overflow-hidden"
             >
                 <span className="relative z-10">Start Session</span>
                 <ArrowRight size={20} className="relative z-10 group-hover:translate-x-1 transition-transform" />
                 <div className="absolute inset-0 bg-gradient-to-r from-gray-200 to-white opacity-0 group-hover:opacity-100 transition-opacity"></div>
             </button>
+            {profiles.length > 0 && (
+                <button type="button" onClick={() => setIsCreating(false)} className="w-full text-xs text-gray-500 hover:text-white uppercase tracking-widest font-bold">
+                    Back to Profiles
+                </button>
+            )}
             </form>
+            )}
         </div>
       </motion.div>
     </div>
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { Compass, Mic, StopCircle, ArrowRight, Award, CheckCircle2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { nextPlacementItem, PLACEMENT_SEQUENCE, PlacementAnswer, PlacementItem, PlacementResult, scorePlacement, scoreSpokenAnswer } from '../services/placement';
+
+// Types for Web Speech API
+interface IWindow extends Window {
+  webkitSpeechRecognition: any;
+  SpeechRecognition: any;
+}
+
+const KIND_LABELS: Record<PlacementItem['kind'], string> = {
+  grammar: 'Grammar',
+  vocabulary: 'Vocabulary',
+  speaking: 'Speaking'
+};
+
+const PlacementScreen: React.FC = () => {
+  const { user, completePlacement, setScreen } = useStore();
+  const [started, setStarted] = useState(false);
+  const [answers, setAnswers] = useState<PlacementAnswer[]>([]);
+  const [item, setItem] = useState<PlacementItem | null>(() => nextPlacementItem([]));
+  const [result, setResult] = useState<PlacementResult | null>(null);
+
+  // Spoken answer: the transcript so far (editable, so typing works without a mic)
+  const [spoken, setSpoken] = useState('');
+  const [isListening, setIsListening] = useState(false);
+  const recognitionRef = useRef<any>(null);
+  const confidenceRef = useRef<number[]>([]);
+
+  useEffect(() => () => {
+    if (recognitionRef.current) try { recognitionRef.current.stop(); } catch(e) {}
+  }, []);
+
+  const recordAnswer = (correct: boolean) => {
+    if (!item) return;
+    const next = [...answers, { itemId: item.id, kind: item.kind, level: item.level, correct }];
+    setAnswers(next);
+    const nextItem = nextPlacementItem(next);
+    setItem(nextItem);
+    if (!nextItem) {
+      const confidences = confidenceRef.current;
+      setResult(scorePlacement(next, confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : undefined));
+    }
+  };
+
+  const toggleListening = () => {
+    if (isListening) {
+      recognitionRef.current?.stop();
+      return;
+    }
+    const { webkitSpeechRecognition, SpeechRecognition } = window as unknown as IWindow;
+    const Recognition = SpeechRecognition || webkitSpeechRecognition;
+    if (!Recognition) return;
+
+    const recognition = new Recognition();
+    recognitionRef.current = recognition;
+    recognition.lang = 'en-US';
+    recognition.interimResults = true;
+    // A spoken answer runs over several phrases; the learner stops it when done
+    recognition.continuous = true;
+    const before = spoken.trim();
+
+    recognition.onstart = () => setIsListening(true);
+    recognition.onresult = (event: any) => {
+      const parts: string[] = [];
+      const confidences: number[] = [];
+      for (let i = 0; i < event.results.length; i++) {
+        parts.push(event.results[i][0].transcript);
+        if (event.results[i].isFinal && event.results[i][0].confidence) confidences.push(event.results[i][0].confidence);
+      }
+      setSpoken([before, parts.join(' ').trim()].filter(Boolean).join(' '));
+      confidenceRef.current = confidences;
+    };
+    recognition.onerror = (event: any) => {
+      console.error('Speech error', event.error);
+      setIsListening(false);
+    };
+    recognition.onend = () => setIsListening(false);
+
+    try {
+      recognition.start();
+    } catch (e) {
+      console.error(e);
+      setIsListening(false);
+    }
+  };
+
+  const submitSpoken = () => {
+    if (!item || !spoken.trim()) return;
+    recognitionRef.current?.stop();
+    recordAnswer(scoreSpokenAnswer(spoken, item.level));
+  };
+
+  const isSpeechSupported = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+
+  // --- Intro ---
+  if (!started) {
+    return (
+      <div className="h-full overflow-y-auto no-scrollbar p-6 flex flex-col items-center justify-center text-center space-y-6">
+        <div className="p-4 bg-primary/20 rounded-2xl border border-primary/40 text-primary">
+            <Compass size={40} />
+        </div>
+        <div>
+            <h1 className="text-2xl font-bold text-white">Find Your Level</h1>
+            <p className="text-gray-400 text-sm mt-2 max-w-xs">
+                {PLACEMENT_SEQUENCE.length} quick questions: grammar, vocabulary and one spoken answer.
+                They get harder or easier as you go, so don't worry about mistakes.
+            </p>
+        </div>
+        <button
+            onClick={() => setStarted(true)}
+            className="w-full max-w-xs py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2"
+        >
+            Start <ArrowRight size={16} />
+        </button>
+        {/* Skipping keeps the current level: A1 for a new learner */}
+        <button onClick={() => setScreen('dashboard')} className="text-xs text-gray-500 hover:text-white font-bold uppercase tracking-widest">
+            Skip, stay at {user?.cefrLevel}
+        </button>
+      </div>
+    );
+  }
+
+  // --- Result ---
+  if (result) {
+    return (
+      <div className="h-full overflow-y-auto no-scrollbar p-6 flex flex-col items-center justify-center text-center space-y-6">
+        <div className="px-6 py-3 rounded-2xl border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 text-3xl font-bold flex items-center gap-3">
+            <Award size={28} /> {result.level}
+        </div>
+        <div>
+            <h1 className="text-2xl font-bold text-white">Your starting level</h1>
+            <p className="text-gray-400 text-sm mt-2">{result.correct} of {result.total} answers were right.</p>
+        </div>
+        <div className="grid grid-cols-3 gap-3 w-full max-w-sm">
+            {(['grammar', 'vocabulary', 'fluency'] as const).map(skill => (
+                <div key={skill} className="bg-white/5 border border-white/10 rounded-xl p-3">
+                    <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">{skill}</p>
+                    <p className="text-xl font-bold text-white">{result.stats[skill]}</p>
+                </div>
+            ))}
+        </div>
+        <button
+            onClick={() => completePlacement(result)}
+            className="w-full max-w-xs py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2"
+        >
+            <CheckCircle2 size={16} /> Start Learning at {result.level}
+        </button>
+      </div>
+    );
+  }
+
+  if (!item) return null;
+
+  // --- Question ---
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar p-6 pb-16 space-y-6">
+      <div className="space-y-2">
+        <div className="flex justify-between text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+            <span>{KIND_LABELS[item.kind]}</span>
+            <span>{answers.length + 1} / {PLACEMENT_SEQUENCE.length}</span>
+        </div>
+        <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${(answers.length / PLACEMENT_SEQUENCE.length) * 100}%` }}></div>
+        </div>
+      </div>
+
+      <motion.div key={item.id} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+        <p className="text-xl text-white font-medium leading-relaxed">{item.prompt}</p>
+
+        {item.options ? (
+            <div className="space-y-3">
+                {item.options.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => recordAnswer(option === item.answer)}
+                        className="w-full text-left px-5 py-4 rounded-xl bg-white/5 border border-white/10 text-gray-200 font-medium hover:bg-white/10 hover:border-primary/50 transition-colors"
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+        ) : (
+            <div className="space-y-4">
+                <p className="text-xs text-gray-500">
+                    {isSpeechSupported ? 'Tap the mic and answer out loud in a few sentences. Tap again when you finish.' : 'Type your answer in a few sentences.'}
+                </p>
+                <textarea
+                    value={spoken}
+                    onChange={(e) => setSpoken(e.target.value)}
+                    rows={5}
+                    placeholder={isListening ? 'Listening...' : 'Your answer'}
+                    className={`w-full bg-white/5 border text-white px-4 py-3 rounded-xl focus:outline-none focus:border-primary/50 placeholder-gray-600 text-base ${isListening ? 'border-red-500/50' : 'border-white/10'}`}
+                />
+                <div className="flex gap-3">
+                    {isSpeechSupported && (
+                        <button
+                            onClick={toggleListening}
+                            className={`p-4 rounded-xl transition-all ${isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10'}`}
+                        >
+                            {isListening ? <StopCircle size={20} /> : <Mic size={20} />}
+                        </button>
+                    )}
+                    <button
+                        onClick={submitSpoken}
+                        disabled={!spoken.trim()}
+                        className="flex-1 py-4 bg-primary text-white rounded-xl font-bold uppercase tracking-widest text-xs flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        Finish <ArrowRight size={16} />
+                    </button>
+                </div>
+            </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default PlacementScreen;
@@ -3,47 +3,57 @@ import { useStore } from '../store';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
 import { Download, Share2, Award, TrendingUp, RefreshCw, Loader } from 'lucide-react';
 import { jsPDF } from "jspdf";
-import { evaluateProgress } from '../services/geminiService';
+import { evaluateProgress, describeTutorError } from '../services/geminiService';
 import { DetailedReport } from '../types';
+import { recentMessages } from '../services/sessions';
+import { latestReportOf } from '../services/reports';
+import ReportHistory from '../components/ReportHistory';
+import LevelSuggestionCard from '../components/LevelSuggestionCard';
 
 const ProgressScreen: React.FC = () => {
-  const { user, stats, vocabulary, chatHistory, latestReport, setLatestReport, updateStats } = useStore();
+  const { user, stats, vocabulary, chatHistory, sessions, reports, addReport, updateStats } = useStore();
+  const latestReport = latestReportOf(reports);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Reports look at the most recent lessons, not just the one in progress
+  const messages = recentMessages(sessions, chatHistory);
 
-  // Use latest report data if available, otherwise fallback to basic stats
+  // Use latest report data if available, otherwise fallback to basic stats.
+  // Pronunciation is only measured by read-aloud practice, never by the report.
   const displayStats = latestReport ? {
       grammar: latestReport.grammarScore,
       vocabulary: latestReport.vocabularyScore,
       fluency: latestReport.fluencyScore,
-      pronunciation: latestReport.coherenceScore // Mapping Coherence to Pronunciation slot for chart consistency
+      pronunciation: stats.pronunciation
   } : stats;
 
   const chartData = [
     { subject: 'Grammar', A: displayStats.grammar, fullMark: 100 },
     { subject: 'Vocab', A: displayStats.vocabulary, fullMark: 100 },
     { subject: 'Fluency', A: displayStats.fluency, fullMark: 100 },
-    { subject: 'Coherence', A: displayStats.pronunciation, fullMark: 100 },
+    { subject: 'Pronunciation', A: displayStats.pronunciation, fullMark: 100 },
+    ...(latestReport ? [{ subject: 'Coherence', A: latestReport.coherenceScore, fullMark: 100 }] : []),
   ];
 
   const handleAnalyze = async () => {
-    if (chatHistory.length < 5) {
+    if (messages.length < 5) {
         alert("Please chat more with ECHO before generating a report. We need at least 5 messages.");
         return;
     }
 
     setIsAnalyzing(true);
+    setAnalysisError(null);
     try {
-        const report = await evaluateProgress(chatHistory);
-        setLatestReport(report);
+        const report = await evaluateProgress(messages);
+        addReport(report);
         // Also update the simple stats in store
         updateStats({
             grammar: report.grammarScore,
             vocabulary: report.vocabularyScore,
-            fluency: report.fluencyScore,
-            pronunciation: report.coherenceScore
+            fluency: report.fluencyScore
         });
     } catch (e) {
-        alert("Failed to generate report. Please try again.");
+        setAnalysisError(describeTutorError(e));
     } finally {
         setIsAnalyzing(false);
     }
@@ -102,7 +112,7 @@ const ProgressScreen: React.FC = () => {
     doc.setFont("helvetica", "normal");
     doc.text(`Total Messages:`, pageWidth / 2 + 10, 72);
     doc.setFont("helvetica", "bold");
-    doc.text(chatHistory.length.toString(), pageWidth / 2 + 45, 72);
+    doc.text(messages.length.toString(), pageWidth / 2 + 45, 72);
 
     // --- Scores Section ---
     let yPos = 100;
@@ -205,7 +215,7 @@ const ProgressScreen: React.FC = () => {
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-white">Analytics</h1>
         <div className="px-4 py-1.5 rounded-full border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 text-sm font-bold flex items-center gap-2 shadow-[0_0_15px_rgba(234,179,8,0.2)]">
-            <Award size={16} /> {latestReport ? latestReport.overallCEFR : user?.cefrLevel}
+            <Award size={16} /> {user?.cefrLevel}
         </div>
       </div>
 
@@ -268,6 +278,17 @@ const ProgressScreen: React.FC = () => {
           </div>
       )}
 
+      <LevelSuggestionCard />
+
+      {latestReport && <ReportHistory reports={reports} />}
+
+      {analysisError && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-4">
+              <h4 className="text-red-400 font-bold text-sm mb-1">Report Failed</h4>
+              <p className="text-gray-300 text-sm">{analysisError}</p>
+          </div>
+      )}
+
       {/* Stats List (Count-based) */}
       <div className="grid grid-cols-2 gap-4">
         <div className="bg-[#121212] p-5 rounded-2xl border border-white/5">
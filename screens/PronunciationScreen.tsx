@@ -0,0 +1,207 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useStore } from '../store';
+import { Mic, StopCircle, Volume2, ArrowLeft, ArrowRight, AudioLines, AlertTriangle } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import { pickReadAloudSentence, scoreReadAloud, PronunciationResult, WordStatus } from '../services/pronunciation';
+
+interface IWindow extends Window {
+  webkitSpeechRecognition: any;
+  SpeechRecognition: any;
+}
+
+const WORD_STYLES: Record<WordStatus, string> = {
+  correct: 'text-green-400',
+  mispronounced: 'text-orange-400 underline decoration-wavy decoration-orange-400 underline-offset-4',
+  skipped: 'text-red-400 line-through opacity-70'
+};
+
+const PronunciationScreen: React.FC = () => {
+  const { user, stats, pronunciationScores, recordPronunciationScore, setScreen } = useStore();
+  const level = user?.cefrLevel || CEFRLevel.A1;
+
+  const [sentence, setSentence] = useState(() => pickReadAloudSentence(level));
+  const [transcript, setTranscript] = useState('');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recognitionRef = useRef<any>(null);
+  // Latest final transcript and confidence, read in onend without stale closures
+  const heardRef = useRef<{ transcript: string; confidence: number }>({ transcript: '', confidence: 0 });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+        if (recognitionRef.current) {
+            try { recognitionRef.current.stop(); } catch(e) {}
+        }
+        window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  // Model reading of the sentence, slightly slower than normal speech
+  const speak = (text: string) => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = 0.9;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const toggleListening = () => {
+    if (isListening) {
+        // onend scores the attempt
+        if (recognitionRef.current) recognitionRef.current.stop();
+        return;
+    }
+
+    const { webkitSpeechRecognition, SpeechRecognition } = window as unknown as IWindow;
+    const Recognition = SpeechRecognition || webkitSpeechRecognition;
+
+    if (!Recognition) {
+      setError("Voice input is not supported in this browser. Please use Chrome or Safari.");
+      return;
+    }
+
+    window.speechSynthesis.cancel();
+    setTranscript('');
+    setResult(null);
+    setError(null);
+    heardRef.current = { transcript: '', confidence: 0 };
+
+    const recognition = new Recognition();
+    recognitionRef.current = recognition;
+    recognition.lang = 'en-US';
+    recognition.interimResults = true;
+    recognition.maxAlternatives = 1;
+    recognition.continuous = false;
+
+    recognition.onstart = () => setIsListening(true);
+
+    recognition.onresult = (event: any) => {
+      const best = event.results[0][0];
+      setTranscript(best.transcript);
+      heardRef.current = { transcript: best.transcript, confidence: event.results[0].isFinal ? best.confidence : 0 };
+    };
+
+    recognition.onerror = (event: any) => {
+      console.error("Speech error", event.error);
+      setIsListening(false);
+      if (event.error === 'not-allowed') {
+          setError("Microphone access denied. Please check your browser settings.");
+      }
+    };
+
+    recognition.onend = () => {
+      setIsListening(false);
+      const heard = heardRef.current;
+      if (!heard.transcript.trim()) return;
+
+      const scored = scoreReadAloud(sentence, heard.transcript, heard.confidence);
+      setResult(scored);
+      recordPronunciationScore(scored.score);
+    };
+
+    try {
+        recognition.start();
+    } catch (e) {
+        console.error(e);
+        setIsListening(false);
+    }
+  };
+
+  const handleNext = () => {
+    setSentence(pickReadAloudSentence(level, sentence));
+    setTranscript('');
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar p-6 space-y-6 pb-32">
+      <div className="flex items-center gap-3 mb-2">
+        <button onClick={() => setScreen('dashboard')} className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors">
+            <ArrowLeft size={22} />
+        </button>
+        <div className="p-2 bg-pink-500/20 rounded-lg border border-pink-500/30 text-pink-400">
+            <AudioLines size={20} />
+        </div>
+        <h1 className="text-2xl font-bold text-white tracking-wide">Read Aloud</h1>
+        <span className="ml-auto px-3 py-1 rounded-full border border-white/10 bg-white/5 text-xs font-bold text-gray-300">{level}</span>
+      </div>
+
+      {/* Target sentence, coloured word-by-word once scored */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <div className="flex justify-between items-start mb-4">
+            <h3 className="text-xs font-bold text-pink-400 uppercase tracking-widest">Read this sentence</h3>
+            <button onClick={() => speak(sentence)} className="text-gray-500 hover:text-white transition-colors" title="Hear it first">
+                <Volume2 size={18} />
+            </button>
+        </div>
+        <p className="text-2xl leading-relaxed font-medium text-white">
+            {result ? result.words.map((w, index) => (
+                <React.Fragment key={index}>
+                    <span className={WORD_STYLES[w.status]} title={w.heard ? `Heard: "${w.heard}"` : undefined}>{w.word}</span>{' '}
+                </React.Fragment>
+            )) : sentence}
+        </p>
+        {transcript && (
+            <p className="mt-4 pt-4 border-t border-white/10 text-sm text-gray-400 italic">Heard: "{transcript}"</p>
+        )}
+      </div>
+
+      {/* Mic */}
+      <div className="flex flex-col items-center gap-3">
+        <button
+            onClick={toggleListening}
+            className={`w-20 h-20 rounded-full flex items-center justify-center transition-all duration-300 ${
+                isListening
+                ? 'bg-red-500 text-white shadow-[0_0_25px_rgba(239,68,68,0.6)] animate-pulse'
+                : 'bg-gradient-to-br from-primary to-blue-600 text-white shadow-[0_0_30px_rgba(59,130,246,0.5)] hover:scale-105 active:scale-95'
+            }`}
+        >
+            {isListening ? <StopCircle size={32} /> : <Mic size={32} />}
+        </button>
+        <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+            {isListening ? 'Listening... tap to finish' : result ? 'Tap to try again' : 'Tap and read aloud'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+            <AlertTriangle size={18} className="text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Score */}
+      {result && (
+        <div className="space-y-4 animate-fade-in-up">
+            <div className="bg-black/40 border border-white/10 rounded-2xl p-5 flex items-center justify-between">
+                <div>
+                    <p className="text-gray-500 text-[10px] uppercase font-bold tracking-wider mb-1">This attempt</p>
+                    <p className={`text-4xl font-bold ${result.score >= 80 ? 'text-green-400' : result.score >= 50 ? 'text-orange-400' : 'text-red-400'}`}>{result.score}</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-gray-500 text-[10px] uppercase font-bold tracking-wider mb-1">Pronunciation ({pronunciationScores.length} recent)</p>
+                    <p className="text-2xl font-bold text-white">{stats.pronunciation}</p>
+                </div>
+            </div>
+            <div className="flex gap-4 text-[10px] uppercase tracking-widest font-bold justify-center">
+                <span className="text-green-400">Clear</span>
+                <span className="text-orange-400">Unclear</span>
+                <span className="text-red-400">Skipped</span>
+            </div>
+            <button
+                onClick={handleNext}
+                className="w-full bg-white text-black py-4 rounded-xl font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all hover:scale-[1.02] active:scale-[0.98]"
+            >
+                Next Sentence <ArrowRight size={18} />
+            </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationScreen;
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { ArrowLeft, Volume2, Play, StopCircle, Trash2, History, MessageCircle, ChevronRight } from 'lucide-react';
+import { ChatSessionRecord } from '../types';
+import { HighlightedText, CorrectionList } from '../components/CorrectionHighlights';
+import { formatDuration } from '../services/sessions';
+
+// Tutor lines are read back the way the live lesson spoke them
+const createUtterance = (text: string) => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  const voices = window.speechSynthesis.getVoices();
+  const preferredVoice = voices.find(v =>
+      ['samantha', 'zira', 'victoria', 'google us english'].some(name => v.name.toLowerCase().includes(name))
+  ) || voices[0];
+  if (preferredVoice) utterance.voice = preferredVoice;
+  return utterance;
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+// A past lesson, read-only, with its tutor lines available for replay
+const SessionTranscript: React.FC<{ session: ChatSessionRecord; onBack: () => void }> = ({ session, onBack }) => {
+  // Index of the tutor line being read, or -1 when silent
+  const [speakingIndex, setSpeakingIndex] = useState(-1);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Bumped on every start and stop, so callbacks from cancelled utterances are ignored
+  const playbackRef = useRef(0);
+
+  useEffect(() => () => window.speechSynthesis.cancel(), []);
+
+  const stop = () => {
+    playbackRef.current += 1;
+    window.speechSynthesis.cancel();
+    setSpeakingIndex(-1);
+    setIsReplaying(false);
+  };
+
+  // Speaks the given tutor lines in order; speechSynthesis queues them itself
+  const play = (indices: number[]) => {
+    stop();
+    const playback = playbackRef.current;
+    indices.forEach((index, position) => {
+      const utterance = createUtterance(session.messages[index].text);
+      utterance.onstart = () => {
+        if (playbackRef.current === playback) setSpeakingIndex(index);
+      };
+      if (position === indices.length - 1) {
+        utterance.onend = utterance.onerror = () => {
+          if (playbackRef.current === playback) stop();
+        };
+      }
+      window.speechSynthesis.speak(utterance);
+    });
+  };
+
+  const replayTutor = () => {
+    const indices = session.messages.map((m, index) => (m.role === 'model' ? index : -1)).filter(index => index >= 0);
+    if (indices.length === 0) return;
+    play(indices);
+    setIsReplaying(true);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-white/5 bg-black/40 backdrop-blur-md flex items-center gap-3 flex-shrink-0 pt-safe-top">
+        <button onClick={() => { stop(); onBack(); }} className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors">
+            <ArrowLeft size={22} />
+        </button>
+        <div className="flex-1 min-w-0">
+            <h2 className="font-bold text-white text-sm truncate">{session.topic}</h2>
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest">
+                {formatDate(session.startedAt)} · {formatDuration(session.endedAt - session.startedAt)}
+            </p>
+        </div>
+        <button
+            onClick={isReplaying ? stop : replayTutor}
+            className={`px-3 py-2 rounded-full border text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 transition-colors ${
+                isReplaying ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+        >
+            {isReplaying ? <><StopCircle size={14} /> Stop</> : <><Play size={14} /> Replay Tutor</>}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-32 space-y-6">
+        {session.messages.map((msg, index) => (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-2xl p-4 relative ${
+                msg.role === 'user'
+                    ? 'bg-primary/90 text-white rounded-br-none'
+                    : `bg-white/5 border text-gray-200 rounded-bl-none ${speakingIndex === index ? 'border-primary/60' : 'border-white/10'}`
+                }`}>
+                <p className="text-sm leading-relaxed font-medium">
+                    {msg.role === 'user' ? <HighlightedText text={msg.text} corrections={msg.corrections} /> : msg.text}
+                </p>
+
+                {msg.role === 'model' && (
+                    <button onClick={() => play([index])} className="absolute -right-8 top-2 p-1.5 rounded-full bg-white/5 text-gray-400 hover:text-primary transition-colors">
+                        <Volume2 size={14} />
+                    </button>
+                )}
+
+                {msg.corrections && msg.corrections.length > 0 && (
+                    <CorrectionList corrections={msg.corrections} />
+                )}
+                </div>
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SessionsScreen: React.FC = () => {
+  const { sessions, deleteSession, setScreen } = useStore();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const openSession = sessions.find(s => s.id === openId);
+  if (openSession) return <SessionTranscript session={openSession} onBack={() => setOpenId(null)} />;
+
+  const handleDelete = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    deleteSession(id);
+    setPendingDeleteId(null);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar p-6 pb-32 space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={() => setScreen('practice')} className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors">
+            <ArrowLeft size={22} />
+        </button>
+        <h1 className="text-2xl font-bold text-white">Past Lessons</h1>
+      </div>
+
+      {sessions.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 opacity-40">
+            <History size={40} className="text-white mb-3" />
+            <p className="text-white text-sm">Finished lessons will appear here.</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-2">
+                <button
+                    onClick={() => setOpenId(session.id)}
+                    className="flex-1 min-w-0 flex items-center gap-4 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 hover:bg-white/10 transition-colors text-left group"
+                >
+                    <div className="p-2.5 bg-teal-500/10 rounded-xl border border-teal-500/20 text-teal-400">
+                        <MessageCircle size={18} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <p className="font-bold text-gray-200 truncate">{session.topic}</p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                            {formatDate(session.startedAt)} · {formatDuration(session.endedAt - session.startedAt)} · {session.messages.length} messages
+                        </p>
+                        {session.corrections.length > 0 && (
+                            <p className="text-[10px] text-orange-400 font-bold uppercase tracking-widest mt-1">
+                                {session.corrections.length} correction{session.corrections.length === 1 ? '' : 's'}
+                            </p>
+                        )}
+                    </div>
+                    <ChevronRight size={18} className="text-gray-500 group-hover:text-white transition-colors" />
+                </button>
+                <button
+                    onClick={() => handleDelete(session.id)}
+                    onBlur={() => setPendingDeleteId(null)}
+                    className={`p-3 rounded-2xl border transition-colors ${pendingDeleteId === session.id ? 'bg-red-500/20 border-red-500/50 text-red-300 text-xs font-bold' : 'bg-white/5 border-white/10 text-gray-500 hover:text-red-400'}`}
+                    title="Delete lesson"
+                >
+                    {pendingDeleteId === session.id ? 'Delete?' : <Trash2 size={16} />}
+                </button>
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsScreen;
@@ -1,7 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useStore } from '../store';
-import { translateText } from '../services/geminiService';
-import { Mic, ArrowRight, Star, Copy, Check, Zap, StopCircle, Volume2, Loader } from 'lucide-react';
+import { translateText, describeTutorError } from '../services/geminiService';
+import { Mic, ArrowRight, Star, Copy, Check, Zap, StopCircle, Volume2, Loader, AlertTriangle, History } from 'lucide-react';
+import TranslationHistory from '../components/TranslationHistory';
+import TappableText from '../components/TappableText';
+import { TranslationResult } from '../services/providers/types';
+import { SOURCE_LANGUAGES, SourceChoice, findLanguage, findLanguageByName, recognitionLanguage, recognitionLocale } from '../services/languages';
 
 interface IWindow extends Window {
   webkitSpeechRecognition: any;
@@ -10,13 +14,22 @@ interface IWindow extends Window {
 
 const TranslatorScreen: React.FC = () => {
   const [input, setInput] = useState('');
-  const [result, setResult] = useState<{ simple: string; enhanced: string; context: string } | null>(null);
+  // Keeps the source choice it was made with, so changing the picker doesn't relabel it
+  const [result, setResult] = useState<(TranslationResult & { choice: SourceChoice }) | null>(null);
+  const [resultId, setResultId] = useState<string | null>(null);
+  const [view, setView] = useState<'translate' | 'history'>('translate');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [copied, setCopied] = useState(false);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   
-  const { addTranslation } = useStore();
+  const { addTranslation, toggleFavoriteTranslation, translations, user } = useStore();
+  const isFavorite = translations.some(t => t.id === resultId && t.isFavorite);
+
+  // Source language defaults to the learner's native language when we support it
+  const [source, setSource] = useState<SourceChoice>(() => findLanguageByName(user?.nativeLanguage)?.code || 'auto');
+  const sourceLabel = source === 'auto' ? 'any language' : findLanguage(source)?.name;
   
   // Refs to handle state access inside callbacks without stale closures
   const recognitionRef = useRef<any>(null);
@@ -73,12 +86,24 @@ const TranslatorScreen: React.FC = () => {
     if (!textToProcess || !textToProcess.trim()) return;
 
     setLoading(true);
+    setError(null);
     // Stop any current speech
     window.speechSynthesis.cancel();
     
-    const data = await translateText(textToProcess);
-    setResult(data);
-    setLoading(false);
+    const choice = source;
+    let data: TranslationResult;
+    try {
+        data = await translateText(textToProcess, choice);
+    } catch (e) {
+        // Don't speak or save a failed translation
+        setResult(null);
+        setResultId(null);
+        setError(describeTutorError(e));
+        return;
+    } finally {
+        setLoading(false);
+    }
+    setResult({ ...data, choice });
 
     // Auto-speak the enhanced English version
     if (data.enhanced) {
@@ -87,9 +112,12 @@ const TranslatorScreen: React.FC = () => {
         speak(data.simple);
     }
 
+    const id = Date.now().toString();
+    setResultId(id);
     addTranslation({
-        id: Date.now().toString(),
+        id,
         original: textToProcess,
+        sourceLanguage: data.sourceLanguage,
         simple: data.simple,
         enhanced: data.enhanced,
         context: data.context,
@@ -120,14 +148,15 @@ const TranslatorScreen: React.FC = () => {
     // --- 1. CLEAR PREVIOUS STATE ON NEW START ---
     setInput('');
     setResult(null);
+    setResultId(null);
+    setError(null);
     transcriptRef.current = '';
     window.speechSynthesis.cancel();
 
     const recognition = new Recognition();
     recognitionRef.current = recognition;
     
-    // Set language to Hindi as requested
-    recognition.lang = 'hi-IN'; 
+    recognition.lang = recognitionLocale(source, user?.nativeLanguage);
     recognition.interimResults = true; // Show results as we speak
     recognition.maxAlternatives = 1;
 
@@ -175,8 +204,40 @@ const TranslatorScreen: React.FC = () => {
             <Zap size={20} />
         </div>
         <h1 className="text-2xl font-bold text-white tracking-wide">Neural Translator</h1>
+        <button
+            onClick={() => setView(view === 'history' ? 'translate' : 'history')}
+            className={`ml-auto p-2 rounded-lg border transition-colors ${
+                view === 'history' ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+            }`}
+            title="History"
+        >
+            <History size={20} />
+        </button>
       </div>
+
+      {view === 'history' ? (
+        <TranslationHistory onSpeak={speak} />
+      ) : (
+      <>
       
+      {/* Source language */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-6 px-6">
+        {[{ code: 'auto' as const, name: 'Auto-detect' }, ...SOURCE_LANGUAGES].map(lang => (
+            <button
+                key={lang.code}
+                onClick={() => setSource(lang.code)}
+                disabled={isListening}
+                className={`flex-shrink-0 px-4 py-2 rounded-full border text-xs font-semibold transition-colors ${
+                    source === lang.code
+                    ? 'bg-indigo-500/20 border-indigo-500/60 text-indigo-300'
+                    : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+                }`}
+            >
+                {lang.name}
+            </button>
+        ))}
+      </div>
+
       {/* Input */}
       <div className="space-y-2">
         <div className="relative group">
@@ -185,7 +246,7 @@ const TranslatorScreen: React.FC = () => {
             <textarea
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder={isListening ? "Listening for Hindi..." : "Tap Mic to speak Hindi..."}
+                placeholder={isListening ? `Listening for ${sourceLabel}...` : `Type or tap Mic to speak ${sourceLabel}...`}
                 className={`relative w-full h-40 p-5 rounded-xl border bg-[#0a0a0a] text-white placeholder-gray-600 focus:outline-none resize-none shadow-inner transition-colors text-base ${
                     isListening ? 'border-red-500/50' : 'border-white/10 focus:border-primary/50'
                 }`}
@@ -204,7 +265,7 @@ const TranslatorScreen: React.FC = () => {
         </div>
         {isListening && (
             <p className="text-[10px] text-red-400 font-bold uppercase tracking-widest animate-pulse ml-2">
-                Listening (Hindi)...
+                Listening ({recognitionLanguage(source, user?.nativeLanguage).name})...
             </p>
         )}
       </div>
@@ -223,9 +284,29 @@ const TranslatorScreen: React.FC = () => {
         )}
       </button>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+            <AlertTriangle size={18} className="text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
       {/* Results */}
       {result && (
         <div className="space-y-4 animate-fade-in-up">
+            <div className="flex items-center justify-between ml-1">
+                <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+                    {result.choice === 'auto' ? 'Detected' : 'From'}: {findLanguage(result.sourceLanguage)?.name || result.sourceLanguage}
+                </p>
+                {resultId && (
+                    <button
+                        onClick={() => toggleFavoriteTranslation(resultId)}
+                        className={`flex items-center gap-1.5 text-xs font-semibold transition-colors ${isFavorite ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+                    >
+                        <Star size={16} fill={isFavorite ? 'currentColor' : 'none'} /> {isFavorite ? 'Saved' : 'Favorite'}
+                    </button>
+                )}
+            </div>
             {/* Simple */}
             <div className="bg-white/5 backdrop-blur-md rounded-xl p-6 border border-white/10">
                 <div className="flex justify-between items-start mb-3">
@@ -239,7 +320,7 @@ const TranslatorScreen: React.FC = () => {
                         </button>
                     </div>
                 </div>
-                <p className="text-lg text-gray-200 font-light">{result.simple}</p>
+                <p className="text-lg text-gray-200 font-light"><TappableText text={result.simple} onSpeak={speak} /></p>
             </div>
 
             {/* Enhanced */}
@@ -256,15 +337,17 @@ const TranslatorScreen: React.FC = () => {
                         </button>
                     </div>
                 </div>
-                <p className="text-xl font-medium text-white mb-4 relative z-10">{result.enhanced}</p>
+                <p className="text-xl font-medium text-white mb-4 relative z-10"><TappableText text={result.enhanced} onSpeak={speak} /></p>
                 
                 <div className="pt-4 border-t border-indigo-500/20 relative z-10">
                     <p className="text-[10px] text-indigo-400 uppercase tracking-wider font-semibold mb-2">Contextual Application</p>
-                    <p className="text-sm text-gray-400 italic leading-relaxed">"{result.context}"</p>
+                    <p className="text-sm text-gray-400 italic leading-relaxed">"<TappableText text={result.context} onSpeak={speak} />"</p>
                 </div>
             </div>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 };
@@ -1,12 +1,58 @@
 import React, { useState, useEffect } from 'react';
 import { useStore } from '../store';
-import { Volume2, CheckCircle, XCircle, RefreshCw, Layers, Loader, ArrowLeft } from 'lucide-react';
+import { Volume2, CheckCircle, Layers, Loader, ArrowLeft, CalendarDays, ListChecks, ArrowDownUp, Plus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { ReviewGrade, VocabWord } from '../types';
+import { REVIEW_GRADES, describeInterval, forecastReviews, getDueWords, nextSchedule, scheduleOf } from '../services/srs';
+import VocabQuiz from '../components/VocabQuiz';
+import VocabTransferPanel from '../components/VocabTransferPanel';
+import AddWordPanel from '../components/AddWordPanel';
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-500/10 text-red-400 border-red-500/20 hover:bg-red-500/20' },
+  hard: { label: 'Hard', className: 'bg-orange-500/10 text-orange-400 border-orange-500/20 hover:bg-orange-500/20' },
+  good: { label: 'Good', className: 'bg-blue-500/10 text-blue-400 border-blue-500/20 hover:bg-blue-500/20' },
+  easy: { label: 'Easy', className: 'bg-green-500/10 text-green-400 border-green-500/20 hover:bg-green-500/20' }
+};
+
+// Upcoming reviews for the next week, as a small bar chart
+const ReviewForecast: React.FC<{ words: VocabWord[] }> = ({ words }) => {
+  const forecast = forecastReviews(words);
+  const max = Math.max(1, ...forecast.map(day => day.count));
+  return (
+    <div className="w-full max-w-md bg-white/5 border border-white/10 rounded-2xl p-4">
+        <div className="flex items-center gap-2 mb-3">
+            <CalendarDays size={14} className="text-primary" />
+            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Upcoming Reviews</h3>
+        </div>
+        <div className="flex items-end gap-2 h-20">
+            {forecast.map((day, i) => (
+                <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <span className="text-[10px] text-gray-400 mb-1">{day.count || ''}</span>
+                    <div className="w-full rounded-t bg-primary/60" style={{ height: `${(day.count / max) * 100}%`, minHeight: day.count ? 4 : 1 }}></div>
+                    <span className="text-[9px] text-gray-500 mt-1 uppercase">
+                        {i === 0 ? 'Today' : new Date(day.date).toLocaleDateString(undefined, { weekday: 'short' })}
+                    </span>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
 
 const VocabularyScreen: React.FC = () => {
-  const { vocabulary, updateVocabStatus, isVocabLoading, setScreen } = useStore();
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const { vocabulary, reviewVocab, isVocabLoading, setScreen } = useStore();
   const [flipped, setFlipped] = useState(false);
+  // Flashcards are self-graded; quiz questions are scored automatically
+  const [mode, setMode] = useState<'cards' | 'quiz'>('quiz');
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showAddWord, setShowAddWord] = useState(false);
+  const panels = (
+    <>
+      {showTransfer && <VocabTransferPanel onClose={() => setShowTransfer(false)} />}
+      {showAddWord && <AddWordPanel onClose={() => setShowAddWord(false)} />}
+    </>
+  );
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
 
   // Load voices reliably (same as ChatScreen)
@@ -22,27 +68,15 @@ const VocabularyScreen: React.FC = () => {
     return () => { window.speechSynthesis.onvoiceschanged = null; };
   }, []);
 
-  const practiceWords = vocabulary.filter(w => w.status !== 'mastered');
-  const currentWord = practiceWords[currentIndex];
+  // Only cards due today, most overdue first. A graded card gets a new due date and
+  // drops out of the list (or, for "again", moves to the back).
+  const dueWords = getDueWords(vocabulary);
+  const currentWord = dueWords[0];
 
-  const handleNext = (status: 'mastered' | 'reviewing') => {
+  const handleGrade = (grade: ReviewGrade) => {
     if (currentWord) {
-      updateVocabStatus(currentWord.id, status);
+      reviewVocab(currentWord.id, grade);
       setFlipped(false);
-      // Logic to move to next or wrap around
-      if (currentIndex >= practiceWords.length - 1) {
-        setCurrentIndex(0);
-      } else {
-        // Keep index, array will shrink if mastered, or if reviewing it stays in pool
-        // But if we marked as 'mastered', the array practiceWords shrinks immediately.
-        // If we marked as 'reviewing', it stays.
-        if (status === 'reviewing') {
-            setCurrentIndex(prev => (prev + 1) % practiceWords.length);
-        } else {
-             // If array shrinks, currentIndex might be out of bounds, so clamp it
-             setCurrentIndex(prev => Math.min(prev, practiceWords.length - 2)); 
-        }
-      }
     }
   };
 
@@ -77,31 +111,54 @@ const VocabularyScreen: React.FC = () => {
       );
   }
 
-  // Empty State - All Done
-  if (practiceWords.length === 0 && !isVocabLoading && vocabulary.length > 0) {
+  // Empty State - Nothing due today
+  if (dueWords.length === 0 && !isVocabLoading && vocabulary.length > 0) {
     return (
         <div className="flex flex-col items-center justify-center h-full p-6 text-center">
             <div className="w-24 h-24 bg-green-500/10 rounded-full border border-green-500/30 flex items-center justify-center mb-6 shadow-glow">
                 <CheckCircle className="text-green-500 w-12 h-12" />
             </div>
-            <h2 className="text-2xl font-bold text-white mb-2">All Targets Acquired</h2>
-            <p className="text-gray-500 max-w-xs mb-8">You have mastered the current vocabulary dataset.</p>
-            <button 
-                onClick={() => setScreen('dashboard')} 
-                className="px-6 py-3 bg-white/10 border border-white/20 rounded-full text-white text-sm font-bold hover:bg-white/20"
-            >
-                Return to Base
-            </button>
+            <h2 className="text-2xl font-bold text-white mb-2">All Caught Up</h2>
+            <p className="text-gray-500 max-w-xs mb-8">No reviews due today. Cards come back just before you would forget them.</p>
+            <div className="w-full flex justify-center mb-8">
+                <ReviewForecast words={vocabulary} />
+            </div>
+            <div className="flex gap-3">
+                <button 
+                    onClick={() => setScreen('dashboard')} 
+                    className="px-6 py-3 bg-white/10 border border-white/20 rounded-full text-white text-sm font-bold hover:bg-white/20"
+                >
+                    Return to Base
+                </button>
+                <button
+                    onClick={() => setShowAddWord(true)}
+                    className="px-4 py-3 bg-white/5 border border-white/10 rounded-full text-gray-300 hover:text-white"
+                    title="Add a Word"
+                >
+                    <Plus size={18} />
+                </button>
+                <button
+                    onClick={() => setShowTransfer(true)}
+                    className="px-4 py-3 bg-white/5 border border-white/10 rounded-full text-gray-300 hover:text-white"
+                    title="Import & Export"
+                >
+                    <ArrowDownUp size={18} />
+                </button>
+            </div>
+            {panels}
         </div>
     );
   }
   
   // Empty State - No Data (Edge case)
-  if (practiceWords.length === 0 && !isVocabLoading) {
+  if (dueWords.length === 0 && !isVocabLoading) {
       return (
         <div className="flex flex-col items-center justify-center h-full p-6 text-center">
             <p className="text-gray-500 mb-4">No data available.</p>
+            <button onClick={() => setShowAddWord(true)} className="mb-3 px-6 py-3 bg-primary rounded-full text-white text-sm font-bold">Add a Word</button>
+            <button onClick={() => setShowTransfer(true)} className="mb-4 px-6 py-3 bg-white/10 border border-white/20 rounded-full text-white text-sm font-bold">Import a Word List</button>
             <button onClick={() => setScreen('dashboard')} className="text-primary underline">Return to Dashboard</button>
+            {panels}
         </div>
       );
   }
@@ -113,14 +170,40 @@ const VocabularyScreen: React.FC = () => {
           <button onClick={() => setScreen('dashboard')} className="p-2 -ml-2 text-gray-400 hover:text-white">
             <ArrowLeft size={20} />
           </button>
-          <div className="text-gray-500 text-xs font-mono uppercase tracking-widest">
-            Unit {currentIndex + 1} / {practiceWords.length}
+          <div className="flex items-center gap-3 text-gray-500 text-xs font-mono uppercase tracking-widest">
+            <button onClick={() => setShowTransfer(true)} className="flex items-center gap-2 hover:text-white" title="Import & Export">
+              {dueWords.length} due <ArrowDownUp size={14} />
+            </button>
+            <button onClick={() => setShowAddWord(true)} className="hover:text-white" title="Add a Word">
+              <Plus size={16} />
+            </button>
+          </div>
+          <div className="flex bg-white/5 border border-white/10 rounded-full p-0.5 text-[10px] font-bold uppercase tracking-wider">
+            {(['quiz', 'cards'] as const).map(m => (
+                <button
+                    key={m}
+                    onClick={() => { setMode(m); setFlipped(false); }}
+                    className={`px-3 py-1.5 rounded-full flex items-center gap-1.5 transition-colors ${mode === m ? 'bg-primary text-white' : 'text-gray-400'}`}
+                >
+                    {m === 'quiz' ? <ListChecks size={12} /> : <Layers size={12} />} {m === 'quiz' ? 'Quiz' : 'Cards'}
+                </button>
+            ))}
           </div>
-          <button onClick={() => setFlipped(!flipped)} className="flex items-center gap-2 text-primary text-xs font-bold uppercase tracking-wider">
-            <Layers size={14} /> Flip
-          </button>
       </div>
 
+      {mode === 'quiz' ? (
+        <div className="relative w-full max-w-md flex-grow flex flex-col justify-center min-h-[50vh]">
+            <VocabQuiz
+                key={`${currentWord.id}:${(currentWord.reviewLog || []).length}`}
+                word={currentWord}
+                deck={vocabulary}
+                onSpeak={speak}
+                onGraded={handleGrade}
+            />
+        </div>
+      ) : (
+      <>
+
       <div className="relative w-full max-w-md perspective-1000 flex-grow flex flex-col justify-center min-h-[50vh]">
         <AnimatePresence mode='wait'>
             <motion.div
@@ -141,8 +224,8 @@ const VocabularyScreen: React.FC = () => {
                              {currentWord.partOfSpeech}
                          </span>
                          
-                         <h2 className="text-4xl md:text-5xl font-bold text-white mb-4 tracking-tight break-words max-w-full">{currentWord.word}</h2>
-                         <p className="text-gray-500 font-mono mb-10 text-lg">/{currentWord.pronunciation}/</p>
+                         <h2 className={`text-4xl md:text-5xl font-bold text-white tracking-tight break-words max-w-full ${currentWord.pronunciation ? 'mb-4' : 'mb-10'}`}>{currentWord.word}</h2>
+                         {currentWord.pronunciation && <p className="text-gray-500 font-mono mb-10 text-lg">/{currentWord.pronunciation}/</p>}
                          
                          <button 
                             onClick={(e) => { e.stopPropagation(); speak(currentWord.word); }}
@@ -169,10 +252,12 @@ const VocabularyScreen: React.FC = () => {
                                     <p className="text-[10px] text-gray-500 uppercase font-bold mb-1">Usage</p>
                                     <p className="text-sm text-gray-400 italic">"{currentWord.example}"</p>
                                 </div>
-                                <div className="pl-4 border-l-2 border-orange-500/50">
-                                    <p className="text-[10px] text-orange-400 uppercase font-bold mb-1">Local Context</p>
-                                    <p className="text-sm text-gray-300 italic">"{currentWord.indianContextExample}"</p>
-                                </div>
+                                {currentWord.indianContextExample && (
+                                    <div className="pl-4 border-l-2 border-orange-500/50">
+                                        <p className="text-[10px] text-orange-400 uppercase font-bold mb-1">Local Context</p>
+                                        <p className="text-sm text-gray-300 italic">"{currentWord.indianContextExample}"</p>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -181,20 +266,27 @@ const VocabularyScreen: React.FC = () => {
         </AnimatePresence>
       </div>
 
-      <div className="flex gap-4 mt-8 w-full max-w-md">
-        <button 
-            onClick={() => handleNext('reviewing')}
-            className="flex-1 py-4 bg-orange-500/10 text-orange-500 border border-orange-500/20 rounded-2xl font-bold uppercase tracking-wider text-xs hover:bg-orange-500/20 transition-colors flex items-center justify-center gap-2"
-        >
-            <RefreshCw size={16} /> Review
-        </button>
-        <button 
-            onClick={() => handleNext('mastered')}
-            className="flex-1 py-4 bg-green-500/10 text-green-500 border border-green-500/20 rounded-2xl font-bold uppercase tracking-wider text-xs hover:bg-green-500/20 transition-colors flex items-center justify-center gap-2 shadow-glow-sm"
-        >
-            <CheckCircle size={16} /> Master
-        </button>
+      {/* Grades, each with the interval it would schedule */}
+      <div className="grid grid-cols-4 gap-2 mt-8 w-full max-w-md">
+        {REVIEW_GRADES.map(grade => (
+            <button
+                key={grade}
+                onClick={() => handleGrade(grade)}
+                className={`py-3 border rounded-2xl font-bold uppercase tracking-wider text-xs transition-colors flex flex-col items-center gap-1 ${GRADE_STYLES[grade].className}`}
+            >
+                {GRADE_STYLES[grade].label}
+                <span className="text-[10px] font-mono opacity-70 normal-case">{describeInterval(nextSchedule(scheduleOf(currentWord), grade))}</span>
+            </button>
+        ))}
+      </div>
+      </>
+      )}
+
+      <div className="w-full flex justify-center mt-6">
+        <ReviewForecast words={vocabulary} />
       </div>
+
+      {panels}
     </div>
   );
 };
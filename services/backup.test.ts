@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CEFRLevel, VocabWord } from '../types';
+import { mergeProfileData } from './backup';
+import { emptyProfileData, ProfileData } from './profiles';
+
+const word = (id: string, text: string, lastReviewed: number, patch: Partial<VocabWord> = {}): VocabWord => ({
+  id, word: text, pronunciation: '', partOfSpeech: 'noun', definition: '', example: '', indianContextExample: '',
+  status: 'reviewing', lastReviewed, ...patch
+});
+
+const profile = (patch: Partial<ProfileData>): ProfileData => ({
+  ...emptyProfileData(),
+  user: { name: 'Asha', avatar: '👩‍🎨', cefrLevel: CEFRLevel.A2, streak: 1, lastLogin: 0, lastLoginDate: '', wordsLearned: 0 },
+  ...patch
+});
+
+describe('mergeProfileData', () => {
+  it('takes the more recently reviewed copy of a word', () => {
+    const current = profile({ vocabulary: [word('w-1', 'crowded', 100, { status: 'reviewing' })] });
+    const incoming = profile({ vocabulary: [word('b-1', 'crowded', 200, { status: 'mastered' })] });
+
+    const merged = mergeProfileData(current, incoming);
+    expect(merged.vocabulary).toHaveLength(1);
+    expect(merged.vocabulary[0].status).toBe('mastered');
+  });
+
+  it('never rolls review progress back to an older backup', () => {
+    const current = profile({ vocabulary: [word('w-1', 'crowded', 200, { status: 'mastered' })] });
+    const incoming = profile({ vocabulary: [word('w-1', 'crowded', 100, { status: 'new' })] });
+
+    expect(mergeProfileData(current, incoming).vocabulary).toEqual(current.vocabulary);
+  });
+
+  it('matches words by id even when the word was edited', () => {
+    const current = profile({ vocabulary: [word('w-1', 'crowded', 100)] });
+    const incoming = profile({ vocabulary: [word('w-1', 'Crowded place', 200)] });
+
+    const merged = mergeProfileData(current, incoming);
+    expect(merged.vocabulary.map(w => w.word)).toEqual(['Crowded place']);
+  });
+
+  it('matches words by text whatever their case and spacing', () => {
+    const current = profile({ vocabulary: [word('w-1', 'crowded', 100)] });
+    const incoming = profile({ vocabulary: [word('b-1', ' Crowded ', 50), word('b-2', 'deadline', 50)] });
+
+    expect(mergeProfileData(current, incoming).vocabulary.map(w => w.id)).toEqual(['w-1', 'b-2']);
+  });
+
+  it('keeps the current id when a newer copy replaces a word, so daily batches still find it', () => {
+    const current = profile({
+      vocabulary: [word('w-1', 'crowded', 100)],
+      vocabBatches: [{ date: '2025-10-09', level: CEFRLevel.A2, wordIds: ['w-1'] }]
+    });
+    const incoming = profile({
+      vocabulary: [word('b-1', 'crowded', 200)],
+      vocabBatches: [{ date: '2025-10-08', level: CEFRLevel.A2, wordIds: ['b-1'] }]
+    });
+
+    const merged = mergeProfileData(current, incoming);
+    expect(merged.vocabulary.map(w => w.id)).toEqual(['w-1']);
+    expect(merged.vocabBatches.map(b => b.wordIds)).toEqual([['w-1'], ['w-1']]);
+  });
+
+  it('keeps the earliest completion time of each lesson', () => {
+    const current = profile({ completedLessons: { 'a2-food': 300, 'a2-travel': 100 } });
+    const incoming = profile({ completedLessons: { 'a2-food': 200, 'a2-work': 400 } });
+
+    expect(mergeProfileData(current, incoming).completedLessons).toEqual({ 'a2-food': 200, 'a2-travel': 100, 'a2-work': 400 });
+  });
+
+  it('keeps the current learner and settings', () => {
+    const current = profile({ dailyBatchSize: 5 });
+    const incoming = profile({ dailyBatchSize: 3, user: { ...current.user!, name: 'Old Asha' } });
+
+    const merged = mergeProfileData(current, incoming);
+    expect(merged.user?.name).toBe('Asha');
+    expect(merged.dailyBatchSize).toBe(5);
+  });
+});
@@ -0,0 +1,144 @@
+import { ProfileData } from './profiles';
+import { migrateProfileData, STORAGE_VERSION } from './migrations';
+import { vocabKey } from './vocabTransfer';
+import { insertReport } from './reports';
+
+// Whole-profile backups as a versioned JSON file. Restoring runs the file through the
+// same migrations and validation as stored data, so old backups keep working.
+
+const BACKUP_FORMAT = 'echo-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  data: ProfileData;
+}
+
+export interface BackupSummary {
+  name: string;
+  level: string;
+  exportedAt: number;
+  words: number;
+  translations: number;
+  messages: number;
+  sessions: number;
+  lessons: number;
+  reports: number;
+}
+
+export type BackupParseResult =
+  | { ok: true; data: ProfileData; summary: BackupSummary }
+  | { ok: false; error: string };
+
+export type RestoreMode = 'replace' | 'merge';
+
+// --- Export ---
+
+export const createBackup = (data: ProfileData): string => {
+  const backup: BackupFile = { format: BACKUP_FORMAT, version: STORAGE_VERSION, exportedAt: Date.now(), data };
+  return JSON.stringify(backup, null, 2);
+};
+
+export const backupFileName = (name: string) =>
+  `echo-backup-${name.trim().replace(/\s+/g, '_') || 'learner'}-${new Date().toISOString().split('T')[0]}.json`;
+
+// --- Import ---
+
+export const parseBackup = (text: string): BackupParseResult => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, error: 'This file is not a backup (it is not valid JSON).' };
+  }
+  if (!file || file.format !== BACKUP_FORMAT || typeof file.version !== 'number') {
+    return { ok: false, error: 'This file is not an ECHO backup.' };
+  }
+  if (file.version > STORAGE_VERSION) {
+    return { ok: false, error: 'This backup was made by a newer version of the app. Update the app and try again.' };
+  }
+
+  const data = migrateProfileData(file.data, file.version);
+  if (!data.user) return { ok: false, error: 'This backup has no learner profile in it.' };
+
+  return {
+    ok: true,
+    data,
+    summary: {
+      name: data.user.name,
+      level: data.user.cefrLevel,
+      exportedAt: typeof file.exportedAt === 'number' ? file.exportedAt : 0,
+      words: data.vocabulary.length,
+      translations: data.translations.length,
+      messages: data.chatHistory.length + data.sessions.reduce((count, s) => count + s.messages.length, 0),
+      sessions: data.sessions.length,
+      lessons: Object.keys(data.completedLessons).length,
+      reports: data.reports.length
+    }
+  };
+};
+
+// --- Merge ---
+
+// Union of two lists by id; `pick` chooses between two versions of the same item
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], pick: (a: T, b: T) => T = (a) => a): T[] => {
+  const merged = new Map(current.map(item => [item.id, item]));
+  incoming.forEach(item => {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing ? pick(existing, item) : item);
+  });
+  return [...merged.values()];
+};
+
+// Words match by id or by the word itself; the more recently reviewed copy wins, so
+// review progress made on either device is never rolled back. A matched word keeps the
+// current id, which daily batches point at; `ids` maps each backup id to the id kept.
+const mergeVocabulary = (current: ProfileData['vocabulary'], incoming: ProfileData['vocabulary']) => {
+  const byKey = new Map(current.map(w => [vocabKey(w.word), w]));
+  const ids = new Map<string, string>();
+  incoming.forEach(word => {
+    const key = vocabKey(word.word);
+    const existing = byKey.get(key) || [...byKey.values()].find(w => w.id === word.id);
+    if (!existing) {
+      byKey.set(key, word);
+      ids.set(word.id, word.id);
+      return;
+    }
+    ids.set(word.id, existing.id);
+    if (word.lastReviewed > existing.lastReviewed) {
+      byKey.delete(vocabKey(existing.word));
+      byKey.set(key, { ...word, id: existing.id });
+    }
+  });
+  return { words: [...byKey.values()], ids };
+};
+
+// Combines a backup into the current profile. The current profile keeps its identity and
+// settings; collections are unioned, and where both sides have something, the newer wins.
+export const mergeProfileData = (current: ProfileData, incoming: ProfileData): ProfileData => {
+  const newer = <T extends { timestamp: number }>(a: T, b: T) => (b.timestamp > a.timestamp ? b : a);
+
+  const completedLessons = { ...incoming.completedLessons };
+  Object.entries(current.completedLessons).forEach(([id, at]) => {
+    completedLessons[id] = Math.min(at, completedLessons[id] ?? at);
+  });
+
+  const vocabulary = mergeVocabulary(current.vocabulary, incoming.vocabulary);
+  const incomingBatches = incoming.vocabBatches
+    .filter(b => !current.vocabBatches.some(c => c.date === b.date))
+    .map(b => ({ ...b, wordIds: b.wordIds.map(id => vocabulary.ids.get(id) ?? id) }));
+
+  return {
+    ...current,
+    chatHistory: mergeById(current.chatHistory, incoming.chatHistory).sort((a, b) => a.timestamp - b.timestamp),
+    sessions: mergeById(current.sessions, incoming.sessions).sort((a, b) => b.startedAt - a.startedAt),
+    vocabulary: vocabulary.words,
+    vocabProposals: mergeById(current.vocabProposals, incoming.vocabProposals),
+    vocabBatches: [...current.vocabBatches, ...incomingBatches]
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    translations: mergeById(current.translations, incoming.translations, newer).sort((a, b) => b.timestamp - a.timestamp),
+    reports: incoming.reports.reduce(insertReport, current.reports),
+    completedLessons
+  };
+};
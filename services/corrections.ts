@@ -0,0 +1,58 @@
+import { Correction, CorrectionCategory, CorrectionSeverity } from '../types';
+
+export const CORRECTION_CATEGORIES: CorrectionCategory[] = [
+  'tense', 'agreement', 'article', 'preposition', 'word-choice', 'word-order', 'spelling', 'punctuation', 'other'
+];
+
+export const CORRECTION_SEVERITIES: CorrectionSeverity[] = ['minor', 'moderate', 'major'];
+
+export const CATEGORY_LABELS: Record<CorrectionCategory, string> = {
+  'tense': 'Tense',
+  'agreement': 'Agreement',
+  'article': 'Article',
+  'preposition': 'Preposition',
+  'word-choice': 'Word Choice',
+  'word-order': 'Word Order',
+  'spelling': 'Spelling',
+  'punctuation': 'Punctuation',
+  'other': 'Other'
+};
+
+// Models are unreliable at counting characters, so spans are always worked out here by
+// finding each `original` in the message. Whole-word matches win over matches inside a
+// longer word (so "i" doesn't land on the "i" in "This"). Spans never overlap; corrections
+// are returned in reading order, with unlocated ones last.
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}']/u.test(char);
+
+export const locateCorrections = (message: string, corrections: Omit<Correction, 'span'>[]): Correction[] => {
+  const lowerMessage = message.toLowerCase();
+  const taken: Array<{ start: number; end: number }> = [];
+
+  const findSpan = (needle: string, wholeWord: boolean) => {
+    let from = 0;
+    while (needle) {
+      const start = lowerMessage.indexOf(needle, from);
+      if (start === -1) break;
+      const end = start + needle.length;
+      const inWord = (isWordChar(needle[0]) && isWordChar(lowerMessage[start - 1]))
+        || (isWordChar(needle[needle.length - 1]) && isWordChar(lowerMessage[end]));
+      if (!(wholeWord && inWord) && !taken.some(span => start < span.end && end > span.start)) {
+        return { start, end };
+      }
+      from = start + 1;
+    }
+    return undefined;
+  };
+
+  const located = corrections.map((correction): Correction => {
+    const needle = correction.original.toLowerCase();
+    const span = findSpan(needle, true) || findSpan(needle, false);
+    if (span) taken.push(span);
+    return { ...correction, span };
+  });
+
+  return located.sort((a, b) => (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity));
+};
+
+// Short key used to recognise the same mistake across turns
+export const correctionKey = (correction: Correction) => `"${correction.original}" -> "${correction.corrected}"`;
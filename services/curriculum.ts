@@ -0,0 +1,266 @@
+import { CEFRLevel, CurriculumLesson, CurriculumUnit } from '../types';
+
+// Units and lessons per CEFR level. Lessons are worked through in order; the tutor is
+// given each lesson's objectives, grammar and vocabulary targets as context.
+
+// A lesson counts as completed once the learner has answered this many times
+export const LESSON_COMPLETION_TURNS = 5;
+
+export const CURRICULUM: CurriculumUnit[] = [
+  // --- A1 ---
+  {
+    id: 'a1-me', level: CEFRLevel.A1, title: 'All About Me',
+    lessons: [
+      {
+        id: 'a1-me-intro', title: 'Introducing Yourself',
+        topicPrompt: 'The student introduces themselves: name, city, family and job or studies.',
+        objectives: ['Say your name, age and where you live', 'Talk about your family in simple sentences'],
+        targetGrammar: ['Verb "to be" (am / is / are)', 'Possessive adjectives (my, your)'],
+        targetVocabulary: ['family', 'brother', 'sister', 'live', 'city', 'student'],
+        warmUpQuestion: "Hello! Let's get to know each other. What is your name, and which city do you live in?"
+      },
+      {
+        id: 'a1-me-day', title: 'My Daily Routine',
+        topicPrompt: 'The student describes a normal day, from morning to night.',
+        objectives: ['Describe what you do every day', 'Say what time you do things'],
+        targetGrammar: ['Present simple (I wake up, she works)', 'Time expressions (at 7 o\'clock, in the morning)'],
+        targetVocabulary: ['wake up', 'breakfast', 'work', 'evening', 'usually', 'always'],
+        warmUpQuestion: "Let's talk about your day. What time do you usually wake up, and what do you do first?"
+      }
+    ]
+  },
+  {
+    id: 'a1-around', level: CEFRLevel.A1, title: 'Around Town',
+    lessons: [
+      {
+        id: 'a1-around-shopping', title: 'At the Market',
+        topicPrompt: 'The student buys fruit and vegetables at a local market and asks about prices.',
+        objectives: ['Ask how much something costs', 'Say what you want to buy'],
+        targetGrammar: ['"How much is / are...?"', '"I would like..."'],
+        targetVocabulary: ['price', 'kilo', 'cheap', 'expensive', 'vegetables', 'change'],
+        warmUpQuestion: "Imagine we are at a vegetable market. What do you want to buy today?"
+      },
+      {
+        id: 'a1-around-directions', title: 'Asking for Directions',
+        topicPrompt: 'The student asks for and gives simple directions to places in their town.',
+        objectives: ['Ask where a place is', 'Give simple directions'],
+        targetGrammar: ['Imperatives (go straight, turn left)', 'Prepositions of place (next to, opposite)'],
+        targetVocabulary: ['left', 'right', 'straight', 'near', 'station', 'hospital'],
+        warmUpQuestion: "Let's practise directions. Is there a bus stop near your home? How do you get there?"
+      }
+    ]
+  },
+  // --- A2 ---
+  {
+    id: 'a2-past', level: CEFRLevel.A2, title: 'Telling Stories',
+    lessons: [
+      {
+        id: 'a2-past-weekend', title: 'Last Weekend',
+        topicPrompt: 'The student talks about what they did last weekend.',
+        objectives: ['Describe past events in order', 'Use time linkers to tell a short story'],
+        targetGrammar: ['Past simple, regular and irregular verbs', 'Sequencers (first, then, after that)'],
+        targetVocabulary: ['visited', 'went', 'met', 'relaxed', 'weekend', 'afterwards'],
+        warmUpQuestion: "Tell me about last weekend. What did you do on Saturday?"
+      },
+      {
+        id: 'a2-past-festival', title: 'A Festival I Remember',
+        topicPrompt: 'The student describes a festival they celebrated, such as Diwali, Eid, Pongal or Christmas.',
+        objectives: ['Describe a celebration in the past', 'Talk about food, clothes and people'],
+        targetGrammar: ['Past simple questions and negatives', '"There was / there were"'],
+        targetVocabulary: ['celebrate', 'decorate', 'sweets', 'relatives', 'crowd', 'lights'],
+        warmUpQuestion: "Festivals are always full of stories. Which festival did you celebrate last, and what did you do?"
+      }
+    ]
+  },
+  {
+    id: 'a2-plans', level: CEFRLevel.A2, title: 'Plans and Preferences',
+    lessons: [
+      {
+        id: 'a2-plans-future', title: 'Plans for Next Month',
+        topicPrompt: 'The student talks about plans and arrangements for the coming weeks.',
+        objectives: ['Talk about future plans', 'Invite someone and accept or refuse'],
+        targetGrammar: ['"Going to" for plans', 'Present continuous for arrangements'],
+        targetVocabulary: ['plan', 'trip', 'invite', 'free', 'busy', 'next week'],
+        warmUpQuestion: "Let's talk about the future. What are you going to do next weekend?"
+      },
+      {
+        id: 'a2-plans-food', title: 'Food I Like',
+        topicPrompt: 'The student compares dishes and says what they like and why.',
+        objectives: ['Compare two things', 'Give simple reasons for preferences'],
+        targetGrammar: ['Comparatives (spicier, more delicious)', '"Because" for reasons'],
+        targetVocabulary: ['spicy', 'sweet', 'healthy', 'taste', 'prefer', 'homemade'],
+        warmUpQuestion: "Let's talk about food. Which do you prefer, street food or home food? Why?"
+      }
+    ]
+  },
+  // --- B1 ---
+  {
+    id: 'b1-work', level: CEFRLevel.B1, title: 'Work and Study',
+    lessons: [
+      {
+        id: 'b1-work-job', title: 'Describing Your Job',
+        topicPrompt: 'The student explains their job or studies: responsibilities, challenges and what they enjoy.',
+        objectives: ['Describe responsibilities clearly', 'Talk about likes and dislikes at work'],
+        targetGrammar: ['Present perfect for experience (I have worked...)', '"Have to / don\'t have to"'],
+        targetVocabulary: ['responsible for', 'deadline', 'colleague', 'manage', 'challenge', 'experience'],
+        warmUpQuestion: "Let's talk about your work or studies. What are you responsible for day to day?"
+      },
+      {
+        id: 'b1-work-interview', title: 'A Job Interview',
+        topicPrompt: 'A practice job interview: the tutor is the interviewer and asks typical questions.',
+        objectives: ['Answer common interview questions', 'Talk about strengths with examples'],
+        targetGrammar: ['Past simple vs present perfect', 'Modal verbs for ability (can, could, be able to)'],
+        targetVocabulary: ['strength', 'weakness', 'achieve', 'team', 'improve', 'opportunity'],
+        warmUpQuestion: "Let's do a practice interview. I am the interviewer. Please tell me a little about yourself."
+      }
+    ]
+  },
+  {
+    id: 'b1-opinions', level: CEFRLevel.B1, title: 'Opinions and Experiences',
+    lessons: [
+      {
+        id: 'b1-opinions-city', title: 'City Life vs Village Life',
+        topicPrompt: 'The student compares city and village life and gives opinions with reasons.',
+        objectives: ['Give and justify opinions', 'Agree and disagree politely'],
+        targetGrammar: ['Opinion phrases (I think, in my opinion)', 'Linking words (however, although)'],
+        targetVocabulary: ['pollution', 'peaceful', 'opportunity', 'traffic', 'community', 'facilities'],
+        warmUpQuestion: "If you had to live in a big city or a village for ten years, which would you choose, and why?"
+      },
+      {
+        id: 'b1-opinions-travel', title: 'A Memorable Journey',
+        topicPrompt: 'The student describes a journey in detail, including problems and feelings.',
+        objectives: ['Narrate a story with background details', 'Describe feelings and reactions'],
+        targetGrammar: ['Past continuous vs past simple', '-ed / -ing adjectives (bored, boring)'],
+        targetVocabulary: ['journey', 'delayed', 'amazing', 'exhausted', 'scenery', 'unexpected'],
+        warmUpQuestion: "Describe a journey you still remember clearly. Where were you going, and what happened?"
+      }
+    ]
+  },
+  // --- B2 ---
+  {
+    id: 'b2-professional', level: CEFRLevel.B2, title: 'Professional Communication',
+    lessons: [
+      {
+        id: 'b2-professional-meeting', title: 'Leading a Meeting',
+        topicPrompt: 'The student runs a short team meeting: sets the agenda, asks for input and summarises decisions.',
+        objectives: ['Open and structure a meeting', 'Politely interrupt and redirect discussion'],
+        targetGrammar: ['Indirect questions (Could you tell me...?)', 'Softening language (I was wondering if...)'],
+        targetVocabulary: ['agenda', 'follow up', 'stakeholder', 'action item', 'clarify', 'consensus'],
+        warmUpQuestion: "Let's role-play a meeting. You are the team lead. How would you open today's meeting about a delayed project?"
+      },
+      {
+        id: 'b2-professional-negotiation', title: 'Negotiating',
+        topicPrompt: 'The student negotiates a salary, a deadline or a price, making proposals and concessions.',
+        objectives: ['Make and respond to proposals', 'Make conditional offers'],
+        targetGrammar: ['First and second conditionals', 'Modal verbs for suggestions (might, could)'],
+        targetVocabulary: ['negotiate', 'compromise', 'proposal', 'flexible', 'terms', 'counter-offer'],
+        warmUpQuestion: "Let's practise negotiating. Your manager offers you a new role but with the same salary. What would you say?"
+      }
+    ]
+  },
+  {
+    id: 'b2-society', level: CEFRLevel.B2, title: 'Society and Change',
+    lessons: [
+      {
+        id: 'b2-society-technology', title: 'Technology in Daily Life',
+        topicPrompt: 'The student discusses how technology such as UPI, smartphones and AI has changed daily life.',
+        objectives: ['Discuss advantages and disadvantages', 'Speculate about the future'],
+        targetGrammar: ['Future forms for predictions (will, be likely to)', 'Passive voice'],
+        targetVocabulary: ['convenient', 'rely on', 'privacy', 'digital', 'impact', 'widespread'],
+        warmUpQuestion: "How has technology changed the way your family shops or pays for things in the last five years?"
+      },
+      {
+        id: 'b2-society-environment', title: 'The Environment',
+        topicPrompt: 'The student discusses environmental problems in their region and possible solutions.',
+        objectives: ['Describe problems and causes', 'Propose and evaluate solutions'],
+        targetGrammar: ['Cause and effect linkers (as a result, due to)', 'Third conditional for regrets'],
+        targetVocabulary: ['sustainable', 'emissions', 'shortage', 'tackle', 'awareness', 'consequence'],
+        warmUpQuestion: "What is the biggest environmental problem where you live, and what do you think causes it?"
+      }
+    ]
+  },
+  // --- C1 ---
+  {
+    id: 'c1-debate', level: CEFRLevel.C1, title: 'Argument and Debate',
+    lessons: [
+      {
+        id: 'c1-debate-education', title: 'Rethinking Education',
+        topicPrompt: 'A debate about exam-focused education, coaching culture and skill-based learning.',
+        objectives: ['Build a structured argument', 'Concede a point and counter it'],
+        targetGrammar: ['Concessive clauses (Admittedly..., Even so...)', 'Cleft sentences (What matters is...)'],
+        targetVocabulary: ['rote learning', 'holistic', 'undermine', 'merit', 'incentivise', 'disproportionate'],
+        warmUpQuestion: "Some say India's exam system rewards memory more than thinking. To what extent do you agree?"
+      },
+      {
+        id: 'c1-debate-work', title: 'The Future of Work',
+        topicPrompt: 'The student discusses remote work, automation and the gig economy.',
+        objectives: ['Speculate precisely about the future', 'Hedge claims appropriately'],
+        targetGrammar: ['Future perfect and continuous', 'Hedging (it would appear that, arguably)'],
+        targetVocabulary: ['automation', 'gig economy', 'upskill', 'displace', 'resilient', 'work-life balance'],
+        warmUpQuestion: "In ten years, which jobs do you think will have disappeared, and which will have become more valuable?"
+      }
+    ]
+  },
+  {
+    id: 'c1-nuance', level: CEFRLevel.C1, title: 'Nuance and Register',
+    lessons: [
+      {
+        id: 'c1-nuance-feedback', title: 'Giving Difficult Feedback',
+        topicPrompt: 'The student gives diplomatic feedback to a colleague whose work is below standard.',
+        objectives: ['Deliver criticism diplomatically', 'Adjust register for different audiences'],
+        targetGrammar: ['Distancing language (It seems that...)', 'Modal verbs in the past (should have, might have)'],
+        targetVocabulary: ['constructive', 'fall short', 'tactful', 'expectation', 'address', 'going forward'],
+        warmUpQuestion: "A colleague keeps missing deadlines and it affects your work. How would you raise this with them?"
+      },
+      {
+        id: 'c1-nuance-storytelling', title: 'Storytelling with Style',
+        topicPrompt: 'The student tells an anecdote with vivid description, suspense and humour.',
+        objectives: ['Use narrative tenses for effect', 'Use vivid vocabulary and idioms'],
+        targetGrammar: ['Narrative tenses including past perfect continuous', 'Inversion for emphasis (Never had I...)'],
+        targetVocabulary: ['vivid', 'bewildered', 'in the nick of time', 'chaotic', 'unfold', 'hilarious'],
+        warmUpQuestion: "Tell me about a time when a plan went completely wrong. Set the scene for me first."
+      }
+    ]
+  },
+  // --- C2 ---
+  {
+    id: 'c2-mastery', level: CEFRLevel.C2, title: 'Mastery',
+    lessons: [
+      {
+        id: 'c2-mastery-ethics', title: 'Ethical Dilemmas',
+        topicPrompt: 'The student discusses ethical dilemmas in technology, medicine or business with precision.',
+        objectives: ['Argue abstract positions precisely', 'Anticipate and refute counter-arguments'],
+        targetGrammar: ['Complex noun phrases', 'Subjunctive and formal structures (Were it not for...)'],
+        targetVocabulary: ['ramification', 'contentious', 'paradigm', 'accountability', 'unprecedented', 'trade-off'],
+        warmUpQuestion: "Should companies be allowed to use personal data to train AI if it benefits public health? Where do you draw the line?"
+      },
+      {
+        id: 'c2-mastery-culture', title: 'Language and Identity',
+        topicPrompt: 'The student reflects on multilingualism, Indian English and cultural identity.',
+        objectives: ['Reflect on abstract personal topics', 'Use idiomatic and culturally nuanced language'],
+        targetGrammar: ['Advanced discourse markers (that said, by the same token)', 'Ellipsis and substitution'],
+        targetVocabulary: ['code-switching', 'nuance', 'heritage', 'assimilate', 'idiosyncratic', 'lingua franca'],
+        warmUpQuestion: "Do you feel like a slightly different person when you speak English compared with your mother tongue?"
+      }
+    ]
+  }
+];
+
+export const getUnitsForLevel = (level: CEFRLevel): CurriculumUnit[] =>
+  CURRICULUM.filter(unit => unit.level === level);
+
+export const findLesson = (lessonId: string): CurriculumLesson | undefined => {
+  for (const unit of CURRICULUM) {
+    const lesson = unit.lessons.find(l => l.id === lessonId);
+    if (lesson) return lesson;
+  }
+  return undefined;
+};
+
+// First lesson at this level the learner has not completed. Once a level is
+// finished, the lesson completed longest ago comes round again for review.
+export const getNextLesson = (level: CEFRLevel, completedLessons: Record<string, number>): CurriculumLesson => {
+  const lessons = getUnitsForLevel(level).flatMap(unit => unit.lessons);
+  return lessons.find(lesson => !completedLessons[lesson.id])
+    || lessons.reduce((oldest, lesson) => completedLessons[lesson.id] < completedLessons[oldest.id] ? lesson : oldest);
+};
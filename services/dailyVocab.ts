@@ -0,0 +1,36 @@
+import { VocabBatch, VocabWord } from '../types';
+
+// Daily vocabulary batches: one batch of new words per calendar day, balanced across
+// three kinds of word and never repeating words the learner already has.
+
+export type WordKind = 'challenging' | 'professional' | 'idiomatic';
+
+export const WORD_KIND_DESCRIPTIONS: Record<WordKind, string> = {
+  challenging: 'Slightly challenging everyday word',
+  professional: 'Professional/Academic word',
+  idiomatic: 'Idiomatic or expressive phrase'
+};
+
+export const DEFAULT_BATCH_SIZE = 3;
+export const BATCH_SIZE_OPTIONS = [3, 5, 8, 10];
+// How many past batches the dashboard keeps
+export const MAX_BATCH_HISTORY = 30;
+
+export const getTodayString = () => new Date().toISOString().split('T')[0];
+
+// How many words of each kind a batch of `size` gets: as even as possible, with any
+// remainder going to the kinds in order
+export const planBatch = (size: number): Record<WordKind, number> => {
+  const kinds = Object.keys(WORD_KIND_DESCRIPTIONS) as WordKind[];
+  const plan = {} as Record<WordKind, number>;
+  kinds.forEach((kind, index) => {
+    plan[kind] = Math.floor(size / kinds.length) + (index < size % kinds.length ? 1 : 0);
+  });
+  return plan;
+};
+
+export const findBatch = (batches: VocabBatch[], date: string) => batches.find(b => b.date === date);
+
+// The batch's words that are still in the deck
+export const batchWords = (batch: VocabBatch, vocabulary: VocabWord[]): VocabWord[] =>
+  batch.wordIds.map(id => vocabulary.find(w => w.id === id)).filter((w): w is VocabWord => !!w);
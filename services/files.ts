@@ -0,0 +1,9 @@
+// Saves generated text (exports, backups) as a file through a temporary download link
+export const downloadTextFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,46 @@
+import { LanguageCode } from '../types';
+
+// Languages learners speak or type into the translator. `locale` drives speech recognition.
+
+export interface SourceLanguage {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  locale: string;
+}
+
+export const SOURCE_LANGUAGES: SourceLanguage[] = [
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', locale: 'ta-IN' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', locale: 'te-IN' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', locale: 'bn-IN' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', locale: 'mr-IN' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી', locale: 'gu-IN' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', locale: 'kn-IN' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', locale: 'ml-IN' },
+  { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', locale: 'pa-IN' },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', locale: 'ur-IN' },
+  { code: 'en', name: 'English', nativeName: 'English', locale: 'en-IN' }
+];
+
+export const LANGUAGE_CODES = SOURCE_LANGUAGES.map(l => l.code);
+
+// Translator source choice: a specific language, or let the model detect it
+export type SourceChoice = LanguageCode | 'auto';
+
+// Native languages offered at sign-up (English is the target, not a native language option)
+export const NATIVE_LANGUAGE_OPTIONS = [...SOURCE_LANGUAGES.filter(l => l.code !== 'en').map(l => l.name), 'Other'];
+
+export const findLanguage = (code: string | undefined): SourceLanguage | undefined =>
+  SOURCE_LANGUAGES.find(l => l.code === code);
+
+export const findLanguageByName = (name: string | undefined): SourceLanguage | undefined =>
+  SOURCE_LANGUAGES.find(l => l.name === name);
+
+// Speech recognition needs a single language, so auto-detect listens in the learner's
+// native language, falling back to Hindi
+export const recognitionLanguage = (choice: SourceChoice, nativeLanguage?: string): SourceLanguage =>
+  (choice === 'auto' ? findLanguageByName(nativeLanguage) : findLanguage(choice)) || SOURCE_LANGUAGES[0];
+
+export const recognitionLocale = (choice: SourceChoice, nativeLanguage?: string): string =>
+  recognitionLanguage(choice, nativeLanguage).locale;
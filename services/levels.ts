@@ -0,0 +1,46 @@
+import { CEFRLevel, DetailedReport, LevelChange, LevelChangeReason } from '../types';
+import { CEFR_LEVELS } from './reports';
+
+// Moving the learner's working level from progress reports. One report is a noisy reading,
+// so the level only moves once several reports in a row agree, and moving down takes more
+// of them than moving up, so a learner near a boundary doesn't flip back and forth.
+// Only reports since the last level change (or declined suggestion) count as evidence.
+
+export const PROMOTION_STREAK = 2;
+export const DEMOTION_STREAK = 3;
+
+export const LEVEL_CHANGE_LABELS: Record<LevelChangeReason, string> = {
+  placement: 'Placement test',
+  promotion: 'Promoted',
+  demotion: 'Moved down',
+  manual: 'Set by hand'
+};
+
+export interface LevelSuggestion {
+  from: CEFRLevel;
+  to: CEFRLevel;
+  reason: 'promotion' | 'demotion';
+  evidence: DetailedReport[];
+}
+
+export const levelEvidenceSince = (levelHistory: LevelChange[], declinedAt: number) =>
+  Math.max(levelHistory.length > 0 ? levelHistory[levelHistory.length - 1].at : 0, declinedAt);
+
+// A promotion goes to the lowest level the streak agrees on; a demotion is one step at a time
+export const suggestLevelChange = (level: CEFRLevel, reports: DetailedReport[], since: number): LevelSuggestion | null => {
+  const recent = reports.filter(r => r.generatedAt > since);
+  const current = CEFR_LEVELS.indexOf(level);
+  const stepsOf = (evidence: DetailedReport[]) => evidence.map(r => CEFR_LEVELS.indexOf(r.overallCEFR) - current);
+
+  const promotionEvidence = recent.slice(-PROMOTION_STREAK);
+  if (promotionEvidence.length === PROMOTION_STREAK && stepsOf(promotionEvidence).every(step => step > 0)) {
+    const to = CEFR_LEVELS[current + Math.min(...stepsOf(promotionEvidence))];
+    return { from: level, to, reason: 'promotion', evidence: promotionEvidence };
+  }
+
+  const demotionEvidence = recent.slice(-DEMOTION_STREAK);
+  if (demotionEvidence.length === DEMOTION_STREAK && stepsOf(demotionEvidence).every(step => step < 0)) {
+    return { from: level, to: CEFR_LEVELS[current - 1], reason: 'demotion', evidence: demotionEvidence };
+  }
+  return null;
+};
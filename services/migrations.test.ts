@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { migrateDeviceState, migrateProfileData } from './migrations';
+import { ProfileData } from './profiles';
+
+// One stored example of every shape the app has written, with what it must upgrade to.
+// Add a fixture for the new shape with every migration.
+
+interface MigrationFixture {
+  name: string;
+  // 'device' fixtures are the whole main key; 'profile' fixtures are one profile's key
+  key: 'device' | 'profile';
+  version: number;
+  state: unknown;
+  expected: { userName: string | null; messages: number; sessions: number; corrections: number; words: number; translations: number; reports: number };
+}
+
+const MIGRATION_FIXTURES: MigrationFixture[] = [
+  {
+    name: 'v0: original release, one learner, one correction per tutor reply',
+    key: 'device',
+    version: 0,
+    state: {
+      currentScreen: 'dashboard',
+      isDarkMode: true,
+      isVocabLoading: false,
+      user: { name: 'Asha', avatar: '👩‍🎨', cefrLevel: 'A1', streak: 3, lastLogin: 1718000000000, lastLoginDate: '2024-06-10', wordsLearned: 0 },
+      chatHistory: [
+        { id: '1', role: 'model', text: 'Hello! What did you do yesterday?', timestamp: 1718000000000 },
+        { id: '2', role: 'user', text: 'I go to market yesterday', timestamp: 1718000005000 },
+        { id: '3', role: 'model', text: 'Nice! What did you buy?', timestamp: 1718000006000, correction: { original: 'I go', corrected: 'I went', explanation: 'Use past tense for yesterday.' } }
+      ],
+      vocabulary: [
+        { id: 'vocab-1', word: 'crowded', pronunciation: 'KROW-did', partOfSpeech: 'adjective', definition: 'Full of people.', example: 'The bus was crowded.', indianContextExample: 'Local trains are crowded.', status: 'reviewing', lastReviewed: 1718000000000 }
+      ],
+      translations: [
+        { id: 't-1', original: 'mujhe chai chahiye', simple: 'I want tea.', enhanced: 'I would like some tea, please.', context: 'At a chai stall.', timestamp: 1718000000000, isFavorite: true }
+      ],
+      stats: { grammar: 20, vocabulary: 15, fluency: 10, pronunciation: 10 },
+      latestReport: null
+    },
+    expected: { userName: 'Asha', messages: 0, sessions: 1, corrections: 1, words: 1, translations: 1, reports: 0 }
+  },
+  {
+    name: 'v0: single learner with lessons, spaced repetition and located corrections',
+    key: 'device',
+    version: 0,
+    state: {
+      currentScreen: 'vocabulary',
+      isDarkMode: false,
+      user: { name: 'Ravi', avatar: '🧘', cefrLevel: 'B1', nativeLanguage: 'Tamil', goals: ['Travel'], streak: 8, lastLogin: 1760000000000, lastLoginDate: '2025-10-09', wordsLearned: 4 },
+      chatHistory: [
+        {
+          id: 'u-1', role: 'user', text: 'She go to office daily', timestamp: 1760000000000,
+          corrections: [{ original: 'She go', corrected: 'She goes', explanation: 'Third person singular.', category: 'agreement', severity: 'moderate', span: { start: 0, end: 6 } }]
+        }
+      ],
+      vocabulary: [
+        {
+          id: 'vocab-2', word: 'deadline', pronunciation: 'DED-lyn', partOfSpeech: 'noun', definition: 'The time by which something must be finished.', example: 'The deadline is Friday.', indianContextExample: 'The tax deadline is 31st July.', status: 'reviewing', lastReviewed: 1760000000000,
+          schedule: { ease: 2.5, interval: 6, repetitions: 2, lapses: 0, dueAt: 1760500000000 },
+          reviewLog: [{ reviewedAt: 1760000000000, grade: 'good', interval: 6 }]
+        },
+        { id: 'broken', word: '', status: 'new' }
+      ],
+      vocabProposals: [],
+      vocabBatches: [{ date: '2025-10-09', level: 'B1', wordIds: ['vocab-2'] }],
+      dailyBatchSize: 5,
+      translations: [
+        { id: 't-2', original: 'நான் நாளை வருவேன்', sourceLanguage: 'ta', simple: 'I will come tomorrow.', enhanced: 'I will be there tomorrow.', context: 'Confirming a visit.', timestamp: 1760000000000, isFavorite: false }
+      ],
+      stats: { grammar: 55, vocabulary: 48, fluency: 40, pronunciation: 62 },
+      pronunciationScores: [62],
+      completedLessons: { 'a2-routines-1': 1759000000000 },
+      latestReport: null
+    },
+    expected: { userName: 'Ravi', messages: 0, sessions: 1, corrections: 1, words: 1, translations: 1, reports: 0 }
+  },
+  {
+    name: 'v0: profile key from the first multi-profile release (bare data, no version)',
+    key: 'profile',
+    version: 0,
+    state: {
+      user: { name: 'Meera', avatar: '👩‍🚀', cefrLevel: 'A2', streak: 1, lastLogin: 1760000000000, lastLoginDate: '2025-10-09', wordsLearned: 0 },
+      chatHistory: [],
+      vocabulary: [],
+      vocabProposals: [],
+      vocabBatches: [],
+      dailyBatchSize: 3,
+      translations: [],
+      stats: { grammar: 20, vocabulary: 15, fluency: 10, pronunciation: 10 },
+      pronunciationScores: [],
+      latestReport: null,
+      completedLessons: {}
+    },
+    expected: { userName: 'Meera', messages: 0, sessions: 0, corrections: 0, words: 0, translations: 0, reports: 0 }
+  },
+  {
+    name: 'v1: profile with the last lesson still in the chat (before the session archive)',
+    key: 'profile',
+    version: 1,
+    state: {
+      user: { name: 'Kabir', avatar: '🕵️‍♀️', cefrLevel: 'A2', streak: 2, lastLogin: 1761000000000, lastLoginDate: '2025-10-20', wordsLearned: 1 },
+      chatHistory: [
+        { id: 'm-1', role: 'model', text: 'What do you do on weekends?', timestamp: 1761000000000 },
+        {
+          id: 'm-2', role: 'user', text: 'I am play cricket', timestamp: 1761000010000,
+          corrections: [{ original: 'I am play', corrected: 'I play', explanation: 'Use the simple present for habits.', category: 'tense', severity: 'moderate', span: { start: 0, end: 9 } }]
+        },
+        { id: 'm-3', role: 'model', text: 'Great! Who do you play with?', timestamp: 1761000012000 }
+      ],
+      vocabulary: [],
+      vocabProposals: [],
+      vocabBatches: [],
+      dailyBatchSize: 3,
+      translations: [],
+      stats: { grammar: 30, vocabulary: 25, fluency: 20, pronunciation: 10 },
+      pronunciationScores: [],
+      latestReport: null,
+      completedLessons: {}
+    },
+    expected: { userName: 'Kabir', messages: 0, sessions: 1, corrections: 1, words: 0, translations: 0, reports: 0 }
+  },
+  {
+    name: 'v2: profile with a single latest report (before report history)',
+    key: 'profile',
+    version: 2,
+    state: {
+      user: { name: 'Nisha', avatar: '👩‍🎨', cefrLevel: 'B1', streak: 4, lastLogin: 1762000000000, lastLoginDate: '2025-11-01', wordsLearned: 3 },
+      chatHistory: [],
+      activeSession: null,
+      sessions: [],
+      vocabulary: [],
+      vocabProposals: [],
+      vocabBatches: [],
+      dailyBatchSize: 3,
+      translations: [],
+      stats: { grammar: 62, vocabulary: 58, fluency: 55, pronunciation: 40 },
+      pronunciationScores: [],
+      latestReport: {
+        grammarScore: 62, vocabularyScore: 58, fluencyScore: 55, coherenceScore: 60, overallCEFR: 'B1',
+        strengths: ['Clear answers'], improvements: ['Past tense'], actionPlan: 'Tell a story about last weekend.', generatedAt: 1762000000000
+      },
+      completedLessons: {}
+    },
+    expected: { userName: 'Nisha', messages: 0, sessions: 0, corrections: 0, words: 0, translations: 0, reports: 1 }
+  },
+  {
+    name: 'v0: corrupt learner data (wrong types everywhere)',
+    key: 'device',
+    version: 0,
+    state: { user: 'Asha', chatHistory: 'oops', vocabulary: [null, 42], translations: {}, stats: null },
+    expected: { userName: null, messages: 0, sessions: 0, corrections: 0, words: 0, translations: 0, reports: 0 }
+  }
+];
+
+// 'device' fixtures come out as the whole main key, which holds the learner's data inline
+const migrate = (fixture: MigrationFixture): Partial<ProfileData> => fixture.key === 'device'
+  ? migrateDeviceState(fixture.state, fixture.version) as Partial<ProfileData>
+  : migrateProfileData(fixture.state, fixture.version);
+
+const allMessages = (data: Partial<ProfileData>) =>
+  [...(data.chatHistory || []), ...(data.sessions || []).flatMap(s => s.messages)];
+
+describe('storage migrations', () => {
+  it.each(MIGRATION_FIXTURES)('$name', (fixture) => {
+    const data = migrate(fixture);
+    const { expected } = fixture;
+
+    expect(data.user?.name ?? null).toBe(expected.userName);
+    expect(data.chatHistory || []).toHaveLength(expected.messages);
+    expect(data.sessions || []).toHaveLength(expected.sessions);
+    expect(allMessages(data).flatMap(m => m.corrections || [])).toHaveLength(expected.corrections);
+    expect(data.vocabulary || []).toHaveLength(expected.words);
+    expect(data.translations || []).toHaveLength(expected.translations);
+    expect(data.reports || []).toHaveLength(expected.reports);
+
+    expect(allMessages(data).some(m => 'correction' in m)).toBe(false);
+    expect((data.translations || []).every(t => t.sourceLanguage)).toBe(true);
+    expect((data.vocabulary || []).every(w => w.schedule)).toBe(true);
+    expect(data).not.toHaveProperty('latestReport');
+  });
+});
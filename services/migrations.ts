@@ -0,0 +1,267 @@
+import { ActiveSession, CEFRLevel, ChatMessage, ChatSessionRecord, Correction, DetailedReport, LevelChange, ReviewLogEntry, SkillStats, Translation, UserProfile, VocabBatch, VocabWord } from '../types';
+import { arrayOf, boolean, number, objectOf, oneOf, optional, score, Schema, string, text, validate, withDefault } from './structuredOutput';
+import { CORRECTION_CATEGORIES, CORRECTION_SEVERITIES, locateCorrections } from './corrections';
+import { LANGUAGE_CODES } from './languages';
+import { REVIEW_GRADES, scheduleOf } from './srs';
+import { BATCH_SIZE_OPTIONS } from './dailyVocab';
+import { buildSessionRecord } from './sessions';
+import { CEFR_LEVELS } from './reports';
+import { DEFAULT_STATS, emptyProfileData, ProfileData, ProfileSummary } from './profiles';
+
+// Stored data is versioned. Each bump adds a step to the chain below; loading runs every
+// step from the stored version up, then validates the result against the current shape.
+
+export const STORAGE_VERSION = 3;
+
+type StoredState = Record<string, unknown>;
+
+// --- Validation ---
+
+const userShape = objectOf<UserProfile>({
+  name: text(),
+  avatar: text(),
+  cefrLevel: withDefault(oneOf(CEFR_LEVELS), CEFRLevel.A1),
+  nativeLanguage: optional(text()),
+  goals: optional(arrayOf(text())),
+  streak: withDefault(number(), 1),
+  lastLogin: withDefault(number(), 0),
+  lastLoginDate: withDefault(string(), ''),
+  wordsLearned: withDefault(number(), 0)
+});
+
+const correctionShape = objectOf<Correction>({
+  original: text(),
+  corrected: text(),
+  explanation: withDefault(string(), ''),
+  category: withDefault(oneOf(CORRECTION_CATEGORIES), 'other'),
+  severity: withDefault(oneOf(CORRECTION_SEVERITIES), 'moderate'),
+  span: optional(objectOf({ start: number(), end: number() }))
+});
+
+const messageShape = objectOf<ChatMessage>({
+  id: text(),
+  role: oneOf(['user', 'model'] as const),
+  text: string(),
+  timestamp: withDefault(number(), 0),
+  corrections: optional(arrayOf(optional(correctionShape)))
+});
+
+const activeSessionShape = objectOf<ActiveSession>({
+  id: text(),
+  topic: text(),
+  lessonId: optional(text()),
+  startedAt: withDefault(number(), 0)
+});
+
+const sessionShape = objectOf<ChatSessionRecord>({
+  id: text(),
+  topic: withDefault(text(), 'Conversation'),
+  lessonId: optional(text()),
+  startedAt: withDefault(number(), 0),
+  endedAt: withDefault(number(), 0),
+  messages: arrayOf(optional(messageShape)) as Schema<ChatMessage[]>,
+  corrections: withDefault(arrayOf(optional(correctionShape)), []) as Schema<Correction[]>
+});
+
+const reviewLogShape = objectOf<ReviewLogEntry>({
+  reviewedAt: number(),
+  grade: oneOf(REVIEW_GRADES),
+  interval: number()
+});
+
+const wordShape = objectOf<VocabWord>({
+  id: text(),
+  word: text(),
+  pronunciation: withDefault(string(), ''),
+  partOfSpeech: withDefault(string(), ''),
+  definition: withDefault(string(), ''),
+  example: withDefault(string(), ''),
+  indianContextExample: withDefault(string(), ''),
+  status: withDefault(oneOf(['new', 'reviewing', 'mastered'] as const), 'new'),
+  lastReviewed: withDefault(number(), 0),
+  schedule: optional(objectOf({ ease: number(), interval: number(), repetitions: number(), lapses: number(), dueAt: number() })),
+  reviewLog: optional(arrayOf(optional(reviewLogShape)))
+});
+
+const translationShape = objectOf<Translation>({
+  id: text(),
+  original: string(),
+  sourceLanguage: withDefault(oneOf(LANGUAGE_CODES), 'hi'),
+  simple: string(),
+  enhanced: string(),
+  context: withDefault(string(), ''),
+  timestamp: withDefault(number(), 0),
+  isFavorite: withDefault(boolean(), false)
+});
+
+const reportShape = objectOf<DetailedReport>({
+  grammarScore: score(),
+  vocabularyScore: score(),
+  fluencyScore: score(),
+  coherenceScore: score(),
+  overallCEFR: oneOf(CEFR_LEVELS),
+  strengths: withDefault(arrayOf(text()), []),
+  improvements: withDefault(arrayOf(text()), []),
+  actionPlan: withDefault(string(), ''),
+  generatedAt: withDefault(number(), 0)
+});
+
+const levelChangeShape = objectOf<LevelChange>({
+  from: oneOf(CEFR_LEVELS),
+  to: oneOf(CEFR_LEVELS),
+  at: number(),
+  reason: withDefault(oneOf(['placement', 'promotion', 'demotion', 'manual'] as const), 'manual')
+});
+
+const statsShape = objectOf<SkillStats>({
+  grammar: withDefault(score(), DEFAULT_STATS.grammar),
+  vocabulary: withDefault(score(), DEFAULT_STATS.vocabulary),
+  fluency: withDefault(score(), DEFAULT_STATS.fluency),
+  pronunciation: withDefault(score(), DEFAULT_STATS.pronunciation)
+});
+
+const batchShape = objectOf<VocabBatch>({
+  date: text(),
+  level: withDefault(oneOf(CEFR_LEVELS), CEFRLevel.A1),
+  wordIds: arrayOf(text())
+});
+
+// A record of lesson id -> completion timestamp
+const completionsShape: Schema<Record<string, number>> = (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, at]) => typeof at === 'number'));
+};
+
+const batchSizeShape: Schema<number> = (value, path, issues) => {
+  if (typeof value === 'number' && BATCH_SIZE_OPTIONS.includes(value)) return value;
+  issues.push(`${path} must be one of ${BATCH_SIZE_OPTIONS.join(', ')}`);
+  return undefined;
+};
+
+// Unusable entries are dropped one by one, so a single bad word or message never
+// costs the learner the rest of their data
+const listOf = <T,>(item: Schema<T>) => withDefault(arrayOf(optional(item)), []) as Schema<T[]>;
+
+const profileDataShape = objectOf<ProfileData>({
+  user: withDefault<UserProfile | null>(userShape, null),
+  chatHistory: listOf(messageShape),
+  activeSession: withDefault<ActiveSession | null>(activeSessionShape, null),
+  sessions: listOf(sessionShape),
+  vocabulary: listOf(wordShape),
+  vocabProposals: listOf(wordShape),
+  vocabBatches: listOf(batchShape),
+  dailyBatchSize: withDefault(batchSizeShape, emptyProfileData().dailyBatchSize),
+  translations: listOf(translationShape),
+  stats: withDefault(statsShape, DEFAULT_STATS),
+  pronunciationScores: listOf(score()),
+  reports: listOf(reportShape),
+  levelHistory: listOf(levelChangeShape),
+  levelPromptDeclinedAt: withDefault(number(), 0),
+  completedLessons: withDefault(completionsShape, {})
+});
+
+const profileSummaryShape = objectOf<ProfileSummary>({
+  id: text(),
+  name: text(),
+  avatar: text(),
+  createdAt: withDefault(number(), 0)
+});
+
+// Current-version learner data, with anything unusable replaced by defaults
+export const validateProfileData = (data: unknown): ProfileData => {
+  const { value, issues } = validate(profileDataShape, data);
+  if (!value) {
+    console.warn('Stored learner data is unusable, starting fresh', issues);
+    return emptyProfileData();
+  }
+  return value;
+};
+
+export const validateProfileList = (profiles: unknown): ProfileSummary[] =>
+  validate(listOf(profileSummaryShape), profiles).value || [];
+
+// --- Migrations ---
+
+// Stored data is only trusted after validation, so the steps below narrow what they touch
+const isRecord = (value: unknown): value is StoredState =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const recordsOf = (value: unknown): StoredState[] => Array.isArray(value) ? value.filter(isRecord) : [];
+
+// Version 0 tutor messages carried one `correction` of the student's previous message;
+// now each user message carries its own list of located corrections
+const moveLegacyCorrections = (messages: StoredState[]): StoredState[] =>
+  messages.map((message, index) => {
+    const reply = messages[index + 1];
+    if (message.role === 'user' && !message.corrections && reply?.role === 'model' && isRecord(reply.correction)) {
+      const { original } = reply.correction;
+      if (typeof original === 'string') {
+        const legacy = { ...reply.correction, original, category: 'other', severity: 'moderate' } as Omit<Correction, 'span'>;
+        return { ...message, corrections: locateCorrections(typeof message.text === 'string' ? message.text : '', [legacy]) };
+      }
+    }
+    if (message.correction) {
+      const { correction, ...rest } = message;
+      return rest;
+    }
+    return message;
+  });
+
+// PROFILE_MIGRATIONS[n] upgrades learner data stored at version n to version n + 1.
+// Version 0 is everything written before versioning existed, so its step accepts
+// every shape the app has stored so far.
+const PROFILE_MIGRATIONS: Array<(data: StoredState) => StoredState> = [
+  (data) => ({
+    ...data,
+    chatHistory: moveLegacyCorrections(recordsOf(data.chatHistory)),
+    // The first translator only took Hindi (or Hinglish) input
+    translations: recordsOf(data.translations).map(t => ({ sourceLanguage: 'hi', ...t })),
+    // Words from before spaced repetition get the schedule their status implies
+    // (scheduleOf only reads the status, review time and schedule, all validated afterwards)
+    vocabulary: recordsOf(data.vocabulary).map(w => w.word ? { ...w, schedule: scheduleOf(w as unknown as VocabWord) } : w)
+  }),
+  // Version 1 cleared the chat at the start of every lesson. Whatever was left over is
+  // the last lesson, and becomes the first archived session.
+  (data) => {
+    const leftover = validate(listOf(messageShape), data.chatHistory).value || [];
+    const record = buildSessionRecord(null, leftover);
+    return { ...data, chatHistory: [], sessions: record ? [{ ...record, topic: 'Earlier conversation' }] : [] };
+  },
+  // Version 2 kept only the latest report. (Data loaded from IndexedDB already has its
+  // reports as a list, since the reports store held that one report.)
+  ({ latestReport, ...data }) => ({
+    ...data,
+    reports: Array.isArray(data.reports) ? data.reports : latestReport ? [latestReport] : []
+  })
+];
+
+export const migrateProfileData = (data: unknown, version: number): ProfileData => {
+  if (typeof data !== 'object' || data === null) return emptyProfileData();
+  let migrated = data as StoredState;
+  for (let v = version; v < STORAGE_VERSION; v++) {
+    migrated = PROFILE_MIGRATIONS[v](migrated);
+  }
+  return validateProfileData(migrated);
+};
+
+// The main key. Before version 1 it held a single learner inline; that learner becomes
+// the first profile (the storage layer then saves their data under that profile).
+// Later versions only change learner data, which is migrated as each profile loads.
+export const migrateDeviceState = (state: unknown, version: number): StoredState => {
+  const stored = isRecord(state) ? state : {};
+  if (version >= 1 || stored.profiles) return stored;
+
+  // The current profile keys plus the ones version 0 used that have since been replaced
+  const profileKeys = [...Object.keys(emptyProfileData()), 'latestReport'];
+  const inline = Object.fromEntries(profileKeys.filter(key => key in stored).map(key => [key, stored[key]]));
+  const device = Object.fromEntries(Object.entries(stored).filter(([key]) => !profileKeys.includes(key)));
+  const data = migrateProfileData(inline, 0);
+  if (!data.user) return { ...device, ...emptyProfileData(), profiles: [], activeProfileId: null };
+
+  const id = `profile-${Date.now()}`;
+  const profiles: ProfileSummary[] = [{ id, name: data.user.name, avatar: data.user.avatar, createdAt: Date.now() }];
+  return { ...device, ...data, profiles, activeProfileId: id };
+};
@@ -0,0 +1,182 @@
+import { CEFRLevel, SkillStats } from '../types';
+import { CEFR_LEVELS } from './reports';
+
+// Adaptive placement test: a short run of grammar and vocabulary questions plus one spoken
+// answer. Each item is pitched one level above the last after a right answer and one below
+// after a wrong one, so the test homes in on the learner's level within a few items.
+
+export type PlacementItemKind = 'grammar' | 'vocabulary' | 'speaking';
+
+export interface PlacementItem {
+  id: string;
+  kind: PlacementItemKind;
+  level: CEFRLevel;
+  prompt: string;
+  // Multiple choice for grammar and vocabulary; speaking items are answered aloud
+  options?: string[];
+  answer?: string;
+}
+
+export interface PlacementAnswer {
+  itemId: string;
+  kind: PlacementItemKind;
+  level: CEFRLevel;
+  correct: boolean;
+}
+
+export interface PlacementResult {
+  level: CEFRLevel;
+  stats: Omit<SkillStats, 'pronunciation'> & { pronunciation?: number };
+  correct: number;
+  total: number;
+}
+
+export const PLACEMENT_SEQUENCE: PlacementItemKind[] = [
+  'grammar', 'vocabulary', 'grammar', 'vocabulary', 'grammar', 'vocabulary', 'grammar', 'speaking'
+];
+
+const START_LEVEL = CEFRLevel.A2;
+
+// --- Item bank ---
+
+const grammar = (id: string, level: CEFRLevel, prompt: string, options: string[], answer: string): PlacementItem =>
+  ({ id, kind: 'grammar', level, prompt, options, answer });
+
+const vocabulary = (id: string, level: CEFRLevel, meaning: string, options: string[], answer: string): PlacementItem =>
+  ({ id, kind: 'vocabulary', level, prompt: `Which word or phrase means "${meaning}"?`, options, answer });
+
+const speaking = (id: string, level: CEFRLevel, prompt: string): PlacementItem =>
+  ({ id, kind: 'speaking', level, prompt });
+
+const ITEMS: PlacementItem[] = [
+  grammar('g-a1-1', CEFRLevel.A1, 'My sister ___ a teacher in Chennai.', ['is', 'are', 'am', 'be'], 'is'),
+  grammar('g-a1-2', CEFRLevel.A1, 'There ___ two chairs in the room.', ['are', 'is', 'has', 'have'], 'are'),
+  grammar('g-a1-3', CEFRLevel.A1, 'I ___ rice every day.', ['eat', 'eats', 'eating', 'am eat'], 'eat'),
+  grammar('g-a2-1', CEFRLevel.A2, 'Yesterday we ___ to the temple.', ['went', 'go', 'gone', 'have go'], 'went'),
+  grammar('g-a2-2', CEFRLevel.A2, 'This phone is ___ than my old one.', ['cheaper', 'more cheap', 'cheapest', 'cheap'], 'cheaper'),
+  grammar('g-a2-3', CEFRLevel.A2, 'Look at the clouds! It ___ rain.', ['is going to', 'going to', 'goes to', 'will to'], 'is going to'),
+  grammar('g-b1-1', CEFRLevel.B1, 'I ___ in Bengaluru since 2019.', ['have lived', 'live', 'am living', 'lived'], 'have lived'),
+  grammar('g-b1-2', CEFRLevel.B1, 'If it rains tomorrow, we ___ the match.', ['will cancel', 'would cancel', 'cancelled', 'cancel will'], 'will cancel'),
+  grammar('g-b1-3', CEFRLevel.B1, 'The report ___ by the manager last week.', ['was written', 'wrote', 'is writing', 'has write'], 'was written'),
+  grammar('g-b2-1', CEFRLevel.B2, 'If I ___ about the traffic, I would have left earlier.', ['had known', 'knew', 'have known', 'would know'], 'had known'),
+  grammar('g-b2-2', CEFRLevel.B2, 'She asked me where ___.', ['I was going', 'was I going', 'am I going', 'I am go'], 'I was going'),
+  grammar('g-b2-3', CEFRLevel.B2, 'By the time we arrived, the train ___.', ['had left', 'has left', 'left', 'was leaving already'], 'had left'),
+  grammar('g-c1-1', CEFRLevel.C1, 'Not only ___ late, but he also forgot the documents.', ['did he arrive', 'he arrived', 'he did arrive', 'arrived he'], 'did he arrive'),
+  grammar('g-c1-2', CEFRLevel.C1, 'I would rather you ___ the client before signing.', ['consulted', 'consult', 'will consult', 'have consulted'], 'consulted'),
+  grammar('g-c1-3', CEFRLevel.C1, '___ the delays, the project finished on budget.', ['Despite', 'Although', 'In spite', 'Even'], 'Despite'),
+  grammar('g-c2-1', CEFRLevel.C2, 'Little ___ that the decision would cost him his job.', ['did he realise', 'he realised', 'he did realise', 'realised he'], 'did he realise'),
+  grammar('g-c2-2', CEFRLevel.C2, 'Were the proposal ___, the board would reconsider.', ['to be revised', 'revised to be', 'being revised', 'to revise'], 'to be revised'),
+  grammar('g-c2-3', CEFRLevel.C2, 'It is high time the company ___ its hiring policy.', ['reviewed', 'reviews', 'will review', 'has reviewed'], 'reviewed'),
+
+  vocabulary('v-a1-1', CEFRLevel.A1, 'not expensive', ['cheap', 'heavy', 'quiet', 'early'], 'cheap'),
+  vocabulary('v-a1-2', CEFRLevel.A1, 'the meal in the middle of the day', ['lunch', 'breakfast', 'kitchen', 'market'], 'lunch'),
+  vocabulary('v-a2-1', CEFRLevel.A2, 'to keep something for later use', ['save', 'spend', 'borrow', 'waste'], 'save'),
+  vocabulary('v-a2-2', CEFRLevel.A2, 'full of people', ['crowded', 'empty', 'narrow', 'polite'], 'crowded'),
+  vocabulary('v-b1-1', CEFRLevel.B1, 'to put off until a later time', ['postpone', 'pretend', 'persuade', 'prepare'], 'postpone'),
+  vocabulary('v-b1-2', CEFRLevel.B1, 'the time by which work must be finished', ['deadline', 'headline', 'timetable', 'overtime'], 'deadline'),
+  vocabulary('v-b2-1', CEFRLevel.B2, 'happening again and again for a long time', ['persistent', 'occasional', 'reluctant', 'temporary'], 'persistent'),
+  vocabulary('v-b2-2', CEFRLevel.B2, 'to make something less severe', ['alleviate', 'aggravate', 'allocate', 'anticipate'], 'alleviate'),
+  vocabulary('v-c1-1', CEFRLevel.C1, 'to weaken gradually or secretly', ['undermine', 'underline', 'undertake', 'underestimate'], 'undermine'),
+  vocabulary('v-c1-2', CEFRLevel.C1, 'clear and easy to understand, especially in speech', ['articulate', 'elaborate', 'arbitrary', 'ambiguous'], 'articulate'),
+  vocabulary('v-c2-1', CEFRLevel.C2, 'quick to notice small details and make judgements', ['perspicacious', 'perfunctory', 'pernicious', 'perfidious'], 'perspicacious'),
+  vocabulary('v-c2-2', CEFRLevel.C2, 'to make a situation worse', ['exacerbate', 'exonerate', 'extrapolate', 'expedite'], 'exacerbate'),
+
+  speaking('s-a1', CEFRLevel.A1, 'Tell me about your family.'),
+  speaking('s-a2', CEFRLevel.A2, 'What did you do last weekend?'),
+  speaking('s-b1', CEFRLevel.B1, 'Describe a festival you enjoy and why it matters to you.'),
+  speaking('s-b2', CEFRLevel.B2, 'Should people work from home? Give reasons for your opinion.'),
+  speaking('s-c1', CEFRLevel.C1, 'How has technology changed the way people in your city work? Consider both benefits and drawbacks.'),
+  speaking('s-c2', CEFRLevel.C2, 'Some say economic growth and environmental protection cannot go together. Argue for or against.')
+];
+
+// --- Adaptive selection ---
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const shift = (level: CEFRLevel, steps: number) =>
+  CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, CEFR_LEVELS.indexOf(level) + steps))];
+
+// The level the next item should be pitched at: one step from the last item's level
+export const nextDifficulty = (answers: PlacementAnswer[]): CEFRLevel => {
+  const last = answers[answers.length - 1];
+  return last ? shift(last.level, last.correct ? 1 : -1) : START_LEVEL;
+};
+
+// Null once the test is over. Falls back to the nearest level with an unused item.
+// Options come shuffled, so pick the item once per step rather than on every render.
+export const nextPlacementItem = (answers: PlacementAnswer[]): PlacementItem | null => {
+  const kind = PLACEMENT_SEQUENCE[answers.length];
+  if (!kind) return null;
+  const target = CEFR_LEVELS.indexOf(nextDifficulty(answers));
+  const used = new Set(answers.map(a => a.itemId));
+  const item = ITEMS.filter(i => i.kind === kind && !used.has(i.id)).sort((a, b) =>
+    Math.abs(CEFR_LEVELS.indexOf(a.level) - target) - Math.abs(CEFR_LEVELS.indexOf(b.level) - target)
+  )[0];
+  if (!item) return null;
+  return item.options ? { ...item, options: shuffle(item.options) } : item;
+};
+
+// --- Scoring ---
+
+// How much a passing spoken answer at each level has to say
+const SPOKEN_WORD_TARGETS: Record<CEFRLevel, number> = {
+  [CEFRLevel.A1]: 5,
+  [CEFRLevel.A2]: 10,
+  [CEFRLevel.B1]: 18,
+  [CEFRLevel.B2]: 28,
+  [CEFRLevel.C1]: 40,
+  [CEFRLevel.C2]: 50
+};
+
+// A spoken answer passes when it is long enough for its level without just repeating itself
+export const scoreSpokenAnswer = (transcript: string, level: CEFRLevel): boolean => {
+  const words = transcript.toLowerCase().match(/[a-z']+/g) || [];
+  return words.length >= SPOKEN_WORD_TARGETS[level] && new Set(words).size / words.length >= 0.4;
+};
+
+// Starting skill scores for each level
+const LEVEL_BASELINES: Record<CEFRLevel, number> = {
+  [CEFRLevel.A1]: 20,
+  [CEFRLevel.A2]: 35,
+  [CEFRLevel.B1]: 50,
+  [CEFRLevel.B2]: 65,
+  [CEFRLevel.C1]: 80,
+  [CEFRLevel.C2]: 92
+};
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// The staircase settles around the learner's level, so only the second half of the test
+// counts: a right answer shows the item's level, a wrong one the level below it.
+// `pronunciationConfidence` is the recogniser's confidence in the spoken answer, if any.
+export const scorePlacement = (answers: PlacementAnswer[], pronunciationConfidence?: number): PlacementResult => {
+  const settled = answers.slice(Math.floor(answers.length / 2));
+  const ability = settled.reduce((sum, a) => sum + CEFR_LEVELS.indexOf(a.level) + (a.correct ? 0.5 : -0.5), 0) / Math.max(1, settled.length);
+  const level = CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, Math.floor(ability)))];
+
+  // Each skill starts from the level's baseline, nudged by how that part of the test went
+  const accuracy = (kind: PlacementItemKind) => {
+    const ofKind = answers.filter(a => a.kind === kind);
+    return ofKind.length ? ofKind.filter(a => a.correct).length / ofKind.length : 0.5;
+  };
+  const baseline = LEVEL_BASELINES[level];
+
+  return {
+    level,
+    stats: {
+      grammar: clampScore(baseline + (accuracy('grammar') - 0.5) * 20),
+      vocabulary: clampScore(baseline + (accuracy('vocabulary') - 0.5) * 20),
+      fluency: clampScore(baseline + (accuracy('speaking') - 0.5) * 20),
+      ...(pronunciationConfidence ? { pronunciation: clampScore(pronunciationConfidence * 100) } : {})
+    },
+    correct: answers.filter(a => a.correct).length,
+    total: answers.length
+  };
+};
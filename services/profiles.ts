@@ -0,0 +1,63 @@
+import { ActiveSession, ChatMessage, ChatSessionRecord, DetailedReport, LevelChange, SkillStats, Translation, UserProfile, VocabBatch, VocabWord } from '../types';
+import { DEFAULT_BATCH_SIZE } from './dailyVocab';
+
+// Several learners can share one device. Each profile's data is stored separately
+// (see storage.ts); the main key only holds device settings and the profile list.
+
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+}
+
+// Everything that belongs to one learner
+export interface ProfileData {
+  user: UserProfile | null;
+  chatHistory: ChatMessage[];
+  activeSession: ActiveSession | null;
+  sessions: ChatSessionRecord[];
+  vocabulary: VocabWord[];
+  vocabProposals: VocabWord[];
+  vocabBatches: VocabBatch[];
+  dailyBatchSize: number;
+  translations: Translation[];
+  stats: SkillStats;
+  pronunciationScores: number[];
+  reports: DetailedReport[]; // oldest first
+  levelHistory: LevelChange[]; // oldest first
+  levelPromptDeclinedAt: number;
+  completedLessons: Record<string, number>;
+}
+
+export interface ProfileIndex {
+  profiles: ProfileSummary[];
+  activeProfileId: string | null;
+}
+
+export const DEFAULT_STATS: SkillStats = { grammar: 20, vocabulary: 15, fluency: 10, pronunciation: 10 };
+
+export const emptyProfileData = (): ProfileData => ({
+  user: null,
+  chatHistory: [],
+  activeSession: null,
+  sessions: [],
+  vocabulary: [],
+  vocabProposals: [],
+  vocabBatches: [],
+  dailyBatchSize: DEFAULT_BATCH_SIZE,
+  translations: [],
+  stats: DEFAULT_STATS,
+  pronunciationScores: [],
+  reports: [],
+  levelHistory: [],
+  levelPromptDeclinedAt: 0,
+  completedLessons: {}
+});
+
+// The learner's part of a larger state object
+export const pickProfileData = (state: ProfileData): ProfileData => {
+  const data = {} as Record<string, unknown>;
+  (Object.keys(emptyProfileData()) as (keyof ProfileData)[]).forEach(key => { data[key] = state[key]; });
+  return data as unknown as ProfileData;
+};
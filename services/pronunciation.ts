@@ -0,0 +1,132 @@
+import { CEFRLevel } from '../types';
+import { similarity } from './similarity';
+
+// Read-aloud practice: the learner reads a target sentence, and the speech recognition
+// transcript is aligned word-by-word against it to score pronunciation.
+
+export type WordStatus = 'correct' | 'mispronounced' | 'skipped';
+
+export interface ScoredWord {
+  word: string; // as written in the target sentence
+  status: WordStatus;
+  heard?: string; // what the recogniser heard instead, for mispronounced words
+}
+
+export interface PronunciationResult {
+  words: ScoredWord[];
+  score: number; // 0-100
+}
+
+// How many recent attempts SkillStats.pronunciation averages over
+export const PRONUNCIATION_HISTORY_SIZE = 10;
+
+// --- Sentences ---
+
+const READ_ALOUD_SENTENCES: Record<CEFRLevel, string[]> = {
+  [CEFRLevel.A1]: [
+    'My name is Priya and I live in Pune.',
+    'I drink tea with my family every morning.',
+    'The bus to the market is very slow today.',
+    'My brother has a red bicycle.'
+  ],
+  [CEFRLevel.A2]: [
+    'Last weekend we visited my grandmother in the village.',
+    'I am going to buy a new phone next month.',
+    'The train was late because of the heavy rain.',
+    'She usually cooks dinner while I wash the dishes.'
+  ],
+  [CEFRLevel.B1]: [
+    'If I had more free time, I would learn to play the guitar.',
+    'The office canteen has become much more crowded since January.',
+    'I have been working on this project for three weeks.',
+    'Could you tell me where the nearest pharmacy is?'
+  ],
+  [CEFRLevel.B2]: [
+    'Although the deadline was tight, the team managed to deliver on time.',
+    'Working from home has its advantages, but I miss talking to my colleagues.',
+    'The festival attracted thousands of visitors from all over the country.',
+    'I would rather negotiate the price than pay the full amount.'
+  ],
+  [CEFRLevel.C1]: [
+    'The committee was reluctant to approve the proposal without further evidence.',
+    'Rapid urbanisation has put considerable pressure on public infrastructure.',
+    'Had we anticipated the delay, we would have rescheduled the meeting.',
+    'Her argument was persuasive, yet it overlooked several practical constraints.'
+  ],
+  [CEFRLevel.C2]: [
+    'The ubiquity of digital payments has fundamentally altered consumer behaviour.',
+    'Notwithstanding the initial scepticism, the policy proved remarkably effective.',
+    'His meticulous attention to detail occasionally bordered on the obsessive.',
+    'The novelist deftly interweaves personal memory with historical narrative.'
+  ]
+};
+
+// A sentence for the level, avoiding the one just practised
+export const pickReadAloudSentence = (level: CEFRLevel, previous?: string): string => {
+  const sentences = READ_ALOUD_SENTENCES[level] || READ_ALOUD_SENTENCES[CEFRLevel.A1];
+  const choices = sentences.filter(s => s !== previous);
+  return choices[Math.floor(Math.random() * choices.length)];
+};
+
+// --- Alignment ---
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+const tokenize = (text: string) => text.split(/\s+/).filter(w => normalizeWord(w));
+
+// Substituting an unrelated word costs more than a skip plus an extra word, so only
+// heard words that resemble the target word are paired with it
+const substitutionCost = (sim: number) => 1.5 * (1 - sim);
+
+// Aligns the transcript against the target with a word-level edit distance, where a
+// substitution costs less the closer the heard word is to the target word.
+// `confidence` is the recogniser's 0-1 confidence for the whole transcript; browsers
+// do not report it per word, and some report 0, which is treated as unknown.
+export const scoreReadAloud = (target: string, transcript: string, confidence = 0): PronunciationResult => {
+  const targetWords = tokenize(target);
+  const expected = targetWords.map(normalizeWord);
+  const heard = tokenize(transcript).map(normalizeWord);
+
+  // cost[i][j]: cheapest alignment of expected[0..i) with heard[0..j)
+  const cost = Array.from({ length: expected.length + 1 }, (_, i) =>
+    Array.from({ length: heard.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= expected.length; i++) {
+    for (let j = 1; j <= heard.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1, // target word skipped
+        cost[i][j - 1] + 1, // extra word heard
+        cost[i - 1][j - 1] + substitutionCost(similarity(expected[i - 1], heard[j - 1]))
+      );
+    }
+  }
+
+  // Walk back through the table to label each target word
+  const words: ScoredWord[] = [];
+  let credit = 0;
+  let i = expected.length;
+  let j = heard.length;
+  while (i > 0) {
+    const sim = j > 0 ? similarity(expected[i - 1], heard[j - 1]) : 0;
+    if (j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(sim)) {
+      if (sim === 1) {
+        words.unshift({ word: targetWords[i - 1], status: 'correct' });
+        credit += 1;
+      } else {
+        words.unshift({ word: targetWords[i - 1], status: 'mispronounced', heard: heard[j - 1] });
+        credit += sim / 2;
+      }
+      i--;
+      j--;
+    } else if (j > 0 && cost[i][j] === cost[i][j - 1] + 1) {
+      j--;
+    } else {
+      words.unshift({ word: targetWords[i - 1], status: 'skipped' });
+      i--;
+    }
+  }
+
+  const accuracy = expected.length ? credit / expected.length : 0;
+  const weighted = confidence > 0 ? accuracy * (0.75 + 0.25 * confidence) : accuracy;
+  return { words, score: Math.round(weighted * 100) };
+};
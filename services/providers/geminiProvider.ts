@@ -0,0 +1,452 @@
+import { GoogleGenAI, Type, Content } from "@google/genai";
+import { TutorProvider, TutorReply, TutorSession, ConversationSummary } from './types';
+import { buildTutorInstruction, buildLessonOpener } from '../prompts';
+import { CORRECTION_CATEGORIES, CORRECTION_SEVERITIES, correctionKey, locateCorrections } from '../corrections';
+import { repairJson, requestStructured, validate } from '../structuredOutput';
+import { tutorReplyShape, translationShape, vocabListShape, vocabHarvestShape, vocabSeedShape, reportShape, summaryUpdateShape } from './validators';
+import { findLanguage, LANGUAGE_CODES, SOURCE_LANGUAGES } from '../languages';
+import { planBatch, WordKind, WORD_KIND_DESCRIPTIONS } from '../dailyVocab';
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+      response: { type: Type.STRING, description: "The conversational reply to be spoken to the student." },
+      corrections: {
+          type: Type.ARRAY,
+          description: "One entry per distinct mistake in the student's last message. Empty if there were none.",
+          items: {
+              type: Type.OBJECT,
+              properties: {
+                  original: { type: Type.STRING, description: "The incorrect words, copied exactly from the student's message." },
+                  corrected: { type: Type.STRING, description: "The grammatically correct version of those words." },
+                  explanation: { type: Type.STRING, description: "A very brief explanation of the rule (e.g., 'Use past tense here')." },
+                  category: { type: Type.STRING, enum: CORRECTION_CATEGORIES },
+                  severity: { type: Type.STRING, enum: CORRECTION_SEVERITIES, description: "minor: style/naturalness, moderate: noticeable error, major: blocks understanding." }
+              },
+              propertyOrdering: ['original', 'corrected', 'explanation', 'category', 'severity']
+          }
+      }
+  },
+  // Stream the spoken reply first so it can be shown and voiced before the corrections arrive
+  propertyOrdering: ['response', 'corrections']
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '' };
+
+// Reads the (possibly unterminated) "response" string out of a partial JSON buffer
+const extractPartialResponse = (buffer: string): string => {
+  const start = /"response"\s*:\s*"/.exec(buffer);
+  if (!start) return '';
+
+  let text = '';
+  let i = start.index + start[0].length;
+  while (i < buffer.length) {
+    const char = buffer[i];
+    if (char === '"') break;
+    if (char === '\\') {
+      const next = buffer[i + 1];
+      if (next === undefined) break; // Escape split across chunks, wait for more
+      if (next === 'u') {
+        const hex = buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      text += JSON_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    text += char;
+    i++;
+  }
+  return text;
+};
+
+// Chat turns can't be re-asked without polluting the lesson history, so a reply that fails
+// validation falls back to the best text we have (the streamed text, or the raw output).
+const parseTutorJson = (responseText: string, message: string, fallbackText?: string): TutorReply => {
+  try {
+    const result = validate(tutorReplyShape, repairJson(responseText));
+    if (result.issues.length === 0) {
+      return { text: result.value.response, corrections: locateCorrections(message, result.value.corrections) };
+    }
+    console.warn("Tutor reply failed validation:", result.issues);
+  } catch (e) {
+    console.warn("Failed to parse JSON response, falling back to raw text:", responseText);
+  }
+  return { text: fallbackText || responseText.replace(/```json\n?|```/g, '').trim(), corrections: [] };
+};
+
+// Older turns are folded into the rolling summary once the live history passes SUMMARY_TRIGGER messages.
+// KEEP_RECENT must stay even so the kept history still starts with a user turn.
+const SUMMARY_TRIGGER = 12;
+const KEEP_RECENT = 6;
+const MAX_SUMMARY_ITEMS = 12;
+
+export const createGeminiProvider = (apiKey: string): TutorProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const startChatSession: TutorProvider['startChatSession'] = async (profile, lesson) => {
+    const summary: ConversationSummary = { topic: lesson.title, studentFacts: [], correctedMistakes: [], notes: '' };
+
+    // Rebuilt only when the summary changes; the SDK chat keeps the verbatim recent turns
+    const createChat = (history: Content[] = []) => ai.chats.create({
+      model: 'gemini-3-flash-preview',
+      config: {
+        systemInstruction: buildTutorInstruction(profile, { lesson, summary }),
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA
+      },
+      history
+    });
+
+    let chat = createChat();
+    let pendingCompaction: Promise<void> = Promise.resolve();
+
+    // Folds everything but the last few turns into the rolling summary
+    const compactHistory = async () => {
+      const history = chat.getHistory(true);
+      if (history.length <= SUMMARY_TRIGGER) return;
+
+      const older = history.slice(0, history.length - KEEP_RECENT);
+      const recent = history.slice(history.length - KEEP_RECENT);
+      try {
+        const update = await summarizeTurns(summary, older);
+        summary.studentFacts = update.studentFacts.slice(-MAX_SUMMARY_ITEMS);
+        summary.notes = update.notes;
+        chat = createChat(recent);
+      } catch (error) {
+        // Keep the full history; we will try again after the next turn
+        console.error("Summary Error:", error);
+      }
+    };
+
+    const recordCorrections = (reply: TutorReply) => {
+      const entries = reply.corrections.map(correctionKey).filter(entry => !summary.correctedMistakes.includes(entry));
+      if (entries.length === 0) return;
+      summary.correctedMistakes = [...summary.correctedMistakes, ...entries].slice(-MAX_SUMMARY_ITEMS);
+      chat = createChat(chat.getHistory(true));
+    };
+
+    const finishTurn = (reply: TutorReply) => {
+      recordCorrections(reply);
+      pendingCompaction = compactHistory();
+      return reply;
+    };
+
+    const sendMessage: TutorSession['sendMessage'] = async (message) => {
+      await pendingCompaction;
+      try {
+        const result = await chat.sendMessage({ message });
+        if (result.text) return finishTurn(parseTutorJson(result.text, message));
+    
+        return { text: "I'm having trouble understanding. Could you repeat that?", corrections: [] };
+
+      } catch (error) {
+        console.error("Gemini Error:", error);
+        return { text: "Sorry, I'm having trouble connecting right now. Please try again later.", corrections: [] };
+      }
+    };
+
+    const streamMessage: TutorSession['streamMessage'] = async (message, onText) => {
+      await pendingCompaction;
+      try {
+        const stream = await chat.sendMessageStream({ message });
+
+        let buffer = '';
+        let lastEmitted = '';
+        for await (const chunk of stream) {
+          buffer += chunk.text || '';
+          const partial = extractPartialResponse(buffer);
+          if (partial !== lastEmitted) {
+            lastEmitted = partial;
+            onText(partial);
+          }
+        }
+
+        if (buffer) return finishTurn(parseTutorJson(buffer, message, lastEmitted));
+        return { text: "I'm having trouble understanding. Could you repeat that?", corrections: [] };
+
+      } catch (error) {
+        console.error("Gemini Stream Error:", error);
+        return { text: "Sorry, I'm having trouble connecting right now. Please try again later.", corrections: [] };
+      }
+    };
+
+    let openingText: string;
+    try {
+      const result = await chat.sendMessage({ message: buildLessonOpener(profile, { lesson, summary }) });
+      openingText = (result.text && parseTutorJson(result.text, '').text) || "Welcome to your English lesson. Shall we begin?";
+
+    } catch (error) {
+      console.error("Start Session Error:", error);
+      openingText = `Hello ${profile.name}, I am ready to help you practice English.`;
+    }
+
+    return {
+      topic: lesson.title,
+      openingText,
+      sendMessage,
+      streamMessage,
+      getSummary: () => ({ ...summary })
+    };
+  };
+
+  const summarizeTurns = (summary: ConversationSummary, turns: Content[]) => {
+    const transcript = turns
+        .map(turn => `${(turn.role || 'user').toUpperCase()}: ${turn.parts?.map(part => part.text).join(' ')}`)
+        .join('\n');
+
+    return requestStructured('Lesson summary', summaryUpdateShape, async (retryHint) => {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: `You maintain the running notes of an English tutoring lesson about "${summary.topic}".
+        Merge the existing notes with the new transcript excerpt.
+
+        Existing student facts: ${summary.studentFacts.join('; ') || 'none'}
+        Existing notes: ${summary.notes || 'none'}
+
+        Transcript excerpt:
+        ${transcript}
+
+        Return:
+        1. studentFacts: short facts the student shared about themselves (job, family, city, interests). Max ${MAX_SUMMARY_ITEMS}.
+        2. notes: 2-3 sentences on what has been discussed so far and where the conversation is heading.${retryHint}`,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              studentFacts: { type: Type.ARRAY, items: { type: Type.STRING } },
+              notes: { type: Type.STRING }
+            }
+          }
+        }
+      });
+      return response.text;
+    });
+  };
+
+  const translateText: TutorProvider['translateText'] = async (text, source) => {
+    const language = findLanguage(source);
+    const sourceNote = language
+      ? `The text is in ${language.name} (it may be written in ${language.nativeName} script or romanised). Set "sourceLanguage" to "${language.code}".`
+      : `First detect the language of the text and set "sourceLanguage" to its code, one of: ${SOURCE_LANGUAGES.map(l => `${l.code} (${l.name})`).join(', ')}.`;
+
+    const result = await requestStructured('Translation', translationShape, async (retryHint) => {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: `Translate the following text to English. ${sourceNote}
+        Provide two versions: 
+        1. Simple English (beginner friendly).
+        2. Enhanced English (professional/native level).
+        3. An example of how to use the enhanced version in a professional or social context.
+      
+        Input Text: "${text}"${retryHint}`,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              sourceLanguage: { type: Type.STRING, enum: LANGUAGE_CODES },
+              simple: { type: Type.STRING },
+              enhanced: { type: Type.STRING },
+              context: { type: Type.STRING }
+            }
+          }
+        }
+      });
+      return response.text;
+    });
+
+    // A chosen language is authoritative; only 'auto' takes the model's guess
+    return language ? { ...result, sourceLanguage: language.code } : result;
+  };
+
+  const generateDailyVocab: TutorProvider['generateDailyVocab'] = async (level, { size, knownWords }) => {
+      const plan = planBatch(size);
+      const kindLines = (Object.keys(plan) as WordKind[])
+          .filter(kind => plan[kind] > 0)
+          .map((kind, index) => `${index + 1}. ${plan[kind]} x ${WORD_KIND_DESCRIPTIONS[kind]}.`)
+          .join('\n              ');
+
+      const data = await requestStructured('Daily vocabulary', vocabListShape, async (retryHint) => {
+          const response = await ai.models.generateContent({
+              model: 'gemini-3-flash-preview',
+              contents: `Generate ${size} distinct English vocabulary words suitable for a ${level} level student:
+              ${kindLines}
+
+              The student already knows these, so do not include any of them: ${knownWords.join(', ') || 'none'}.
+              Include an example specifically relevant to an Indian context.${retryHint}`,
+              config: {
+                  responseMimeType: 'application/json',
+                  responseSchema: {
+                      type: Type.ARRAY,
+                      items: {
+                          type: Type.OBJECT,
+                          properties: {
+                              word: { type: Type.STRING },
+                              pronunciation: { type: Type.STRING },
+                              partOfSpeech: { type: Type.STRING },
+                              definition: { type: Type.STRING },
+                              example: { type: Type.STRING },
+                              indianContextExample: { type: Type.STRING }
+                          }
+                      }
+                  }
+              }
+          });
+          return response.text;
+      });
+        
+      const known = new Set(knownWords.map(word => word.toLowerCase()));
+      return data.filter(item => !known.has(item.word.toLowerCase())).slice(0, size).map((item, index) => ({
+          ...item,
+          id: `vocab-${Date.now()}-${index}`,
+          status: 'new' as const,
+          lastReviewed: Date.now()
+      }));
+  };
+
+  const harvestVocab: TutorProvider['harvestVocab'] = async (history, level, knownWords) => {
+      const tutorText = history.filter(msg => msg.role === 'model').map(msg => `- ${msg.text}`).join('\n');
+      const correctionText = history
+          .flatMap(msg => msg.corrections || [])
+          .map(c => `- "${c.original}" -> "${c.corrected}" (${c.explanation})`)
+          .join('\n');
+
+      const data = await requestStructured('Vocabulary harvest', vocabHarvestShape, async (retryHint) => {
+          const response = await ai.models.generateContent({
+              model: 'gemini-3-flash-preview',
+              contents: `A ${level} level English student just finished a lesson. From the tutor's lines and the corrections below,
+              pick up to 6 words, phrasal verbs, collocations or idioms worth adding to the student's flashcard deck.
+              - Only pick items at or slightly above ${level} level; skip words a ${level} student already knows.
+              - Prefer the corrected phrasing from the corrections when it teaches a reusable pattern.
+              - Do not pick any of these, which are already in the deck: ${knownWords.join(', ') || 'none'}.
+              - Return an empty array if nothing is worth learning.
+              For each item give pronunciation, part of speech, a simple definition, the example sentence it appeared in (or a close one),
+              and an example specifically relevant to an Indian context.
+
+              TUTOR LINES:
+              ${tutorText || '- none'}
+
+              CORRECTIONS:
+              ${correctionText || '- none'}${retryHint}`,
+              config: {
+                  responseMimeType: 'application/json',
+                  responseSchema: {
+                      type: Type.ARRAY,
+                      items: {
+                          type: Type.OBJECT,
+                          properties: {
+                              word: { type: Type.STRING },
+                              pronunciation: { type: Type.STRING },
+                              partOfSpeech: { type: Type.STRING },
+                              definition: { type: Type.STRING },
+                              example: { type: Type.STRING },
+                              indianContextExample: { type: Type.STRING }
+                          }
+                      }
+                  }
+              }
+          });
+          return response.text;
+      });
+
+      return data.map((item, index) => ({
+          ...item,
+          id: `harvest-${Date.now()}-${index}`,
+          status: 'new' as const,
+          lastReviewed: Date.now()
+      }));
+  };
+
+  const enrichWord: TutorProvider['enrichWord'] = async (word, context, level) => {
+      const data = await requestStructured('Word lookup', vocabSeedShape, async (retryHint) => {
+          const response = await ai.models.generateContent({
+              model: 'gemini-3-flash-preview',
+              contents: `A ${level} level English student wants to learn "${word}".
+              ${context ? `They saw it in this sentence: "${context}". Explain the meaning it has there.` : 'Explain its most common meaning.'}
+              Give its pronunciation, part of speech, a definition in words a ${level} student understands,
+              an example sentence, and an example specifically relevant to an Indian context.
+              Keep "word" exactly as the student wrote it, apart from obvious spelling mistakes.${retryHint}`,
+              config: {
+                  responseMimeType: 'application/json',
+                  responseSchema: {
+                      type: Type.OBJECT,
+                      properties: {
+                          word: { type: Type.STRING },
+                          pronunciation: { type: Type.STRING },
+                          partOfSpeech: { type: Type.STRING },
+                          definition: { type: Type.STRING },
+                          example: { type: Type.STRING },
+                          indianContextExample: { type: Type.STRING }
+                      }
+                  }
+              }
+          });
+          return response.text;
+      });
+
+      return {
+          ...data,
+          id: `custom-${Date.now()}`,
+          status: 'new',
+          lastReviewed: Date.now()
+      };
+  };
+
+  const evaluateProgress: TutorProvider['evaluateProgress'] = async (history) => {
+      const conversationText = history
+          .map(msg => `${msg.role.toUpperCase()}: ${msg.text}`)
+          .join('\n');
+
+      const data = await requestStructured('Progress report', reportShape, async (retryHint) => {
+          const response = await ai.models.generateContent({
+              model: 'gemini-3-pro-preview', // Stronger model for analysis
+              contents: `You are a Senior CEFR Examiner. Analyze the following conversation transcript from an English student.
+            
+              Transcript:
+              ${conversationText.substring(0, 10000)} // Limit context if needed
+            
+              Task:
+              1. Evaluate Grammar, Vocabulary, Fluency, and Coherence (0-100).
+              2. Determine their overall CEFR Level (A1, A2, B1, B2, C1, or C2).
+              3. Identify 3 major strengths.
+              4. Identify 3 specific areas for improvement (improvements).
+              5. Create a short actionable plan (2-3 sentences).
+              ${retryHint}`,
+              config: {
+                  responseMimeType: 'application/json',
+                  responseSchema: {
+                      type: Type.OBJECT,
+                      properties: {
+                          grammarScore: { type: Type.INTEGER },
+                          vocabularyScore: { type: Type.INTEGER },
+                          fluencyScore: { type: Type.INTEGER },
+                          coherenceScore: { type: Type.INTEGER },
+                          overallCEFR: { type: Type.STRING, enum: ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] },
+                          strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+                          improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
+                          actionPlan: { type: Type.STRING }
+                      }
+                  }
+              }
+          });
+          return response.text;
+      });
+
+      return { ...data, generatedAt: Date.now() };
+  };
+
+  return {
+    id: 'gemini',
+    startChatSession,
+    translateText,
+    generateDailyVocab,
+    harvestVocab,
+    enrichWord,
+    evaluateProgress
+  };
+};
@@ -0,0 +1,527 @@
+import { Correction, CorrectionCategory, CorrectionSeverity, CEFRLevel, CurriculumLesson, DetailedReport, LanguageCode } from '../../types';
+import { TutorProvider, TutorReply, TutorSession, TranslationResult, ConversationSummary } from './types';
+import { VocabSeed } from './validators';
+import { correctionKey, locateCorrections } from '../corrections';
+import { planBatch, WordKind } from '../dailyVocab';
+
+// Offline provider used for development and demos without an API key.
+// Everything here is deterministic: the same input always produces the same output,
+// so walkthroughs and screenshots stay reproducible.
+
+// --- Helpers ---
+
+// Small stable string hash (djb2) used instead of Math.random for picking content
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const pick = <T,>(items: T[], seed: string): T => items[hashString(seed) % items.length];
+
+// Simulated network latency so loading states still show up in demos
+const delay = (ms = 400) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- Scripted Turns ---
+
+// Follow-ups are built from the curriculum lesson, alternating between a vocabulary
+// prompt, an objective and a general "tell me more" question
+const GENERAL_FOLLOW_UPS = [
+  "Can you give me an example from your own life?",
+  "Why do you feel that way?",
+  "What happened next?",
+  "How would you explain that to a friend?"
+];
+
+const buildFollowUp = (lesson: CurriculumLesson, turn: number): string => {
+  const round = Math.floor(turn / 3);
+  switch (turn % 3) {
+    case 0:
+      return `Now try to use "${lesson.targetVocabulary[round % lesson.targetVocabulary.length]}" in your next answer.`;
+    case 1:
+      return `Let's practise this: ${lesson.objectives[round % lesson.objectives.length].toLowerCase()}.`;
+    default:
+      return GENERAL_FOLLOW_UPS[round % GENERAL_FOLLOW_UPS.length];
+  }
+};
+
+const ACKNOWLEDGEMENTS = {
+  short: [
+    "Thank you. Could you say a little more about that?",
+    "Good start. Try to give me one or two more details.",
+    "I see. Let's build a longer answer together."
+  ],
+  medium: [
+    "That's a clear answer, well done.",
+    "Nice, I understood you perfectly.",
+    "Good, you explained that quite naturally."
+  ],
+  long: [
+    "Excellent, that was a detailed and well-organised answer.",
+    "Great answer. You used several connected ideas there.",
+    "Very good. You are speaking with real confidence now."
+  ]
+};
+
+// Picks up simple self-descriptions ("I work as...", "My sister lives...") for the lesson summary
+const STUDENT_FACT_PATTERN = /\b(?:I am|I'm|I work|I live|I study|I have|my name is|my (?:family|mother|father|brother|sister|wife|husband|job|hobby)\b)[^.!?]*/gi;
+
+const MAX_SUMMARY_ITEMS = 12;
+
+// --- Rule-based Corrections ---
+
+interface CorrectionRule {
+  pattern: RegExp;
+  fix: (match: RegExpMatchArray) => string;
+  explanation: string;
+  category: CorrectionCategory;
+  severity: CorrectionSeverity;
+}
+
+const THIRD_PERSON: Record<string, string> = { go: 'goes', do: 'does', have: 'has' };
+const PAST_TENSE: Record<string, string> = {
+  go: 'went', eat: 'ate', see: 'saw', come: 'came', buy: 'bought', have: 'had', do: 'did', take: 'took', meet: 'met'
+};
+
+const CORRECTION_RULES: CorrectionRule[] = [
+  {
+    pattern: /\b(yesterday|last (?:week|month|year|night)),? (I|we|he|she|they) (go|eat|see|come|buy|have|do|take|meet)\b/i,
+    fix: (m) => `${m[1]} ${m[2]} ${PAST_TENSE[m[3].toLowerCase()]}`,
+    explanation: "Use the past simple for finished actions in the past.",
+    category: 'tense',
+    severity: 'moderate'
+  },
+  {
+    pattern: /\b(he|she|it|my (?:mother|father|brother|sister|friend)) (go|do|have|want|like|need|work|live)\b/i,
+    fix: (m) => `${m[1]} ${THIRD_PERSON[m[2].toLowerCase()] || m[2] + 's'}`,
+    explanation: "Add -s to the verb after he, she or it in the present simple.",
+    category: 'agreement',
+    severity: 'moderate'
+  },
+  {
+    pattern: /\bdiscuss about\b/i,
+    fix: () => 'discuss',
+    explanation: "'Discuss' does not need 'about' after it.",
+    category: 'preposition',
+    severity: 'minor'
+  },
+  {
+    pattern: /\bmore (better|worse|easier|bigger|faster|cheaper)\b/i,
+    fix: (m) => m[1],
+    explanation: "Comparatives like 'better' already mean 'more'; don't use both.",
+    category: 'word-choice',
+    severity: 'moderate'
+  },
+  {
+    pattern: /\bI am having (a|an|two|three) (car|house|brother|sister|job|laptop)\b/i,
+    fix: (m) => `I have ${m[1]} ${m[2]}`,
+    explanation: "Use the simple present 'have' for possession, not the continuous.",
+    category: 'tense',
+    severity: 'minor'
+  },
+  {
+    pattern: /\bsince (\d+|two|three|four|five|many) (years|months|weeks|days)\b/i,
+    fix: (m) => `for ${m[1]} ${m[2]}`,
+    explanation: "Use 'for' with a length of time and 'since' with a starting point.",
+    category: 'preposition',
+    severity: 'moderate'
+  },
+  {
+    pattern: /\b(?:I|we|you|they) can able to\b/i,
+    fix: (m) => m[0].replace(/can able to/i, 'am able to').replace(/^(we|you|they) am/i, '$1 are'),
+    explanation: "Say 'can' or 'be able to', not both together.",
+    category: 'word-choice',
+    severity: 'major'
+  },
+  {
+    pattern: /\bdo the needful\b/i,
+    fix: () => 'do what is needed',
+    explanation: "'Do the needful' sounds old-fashioned in international English.",
+    category: 'word-choice',
+    severity: 'minor'
+  },
+  {
+    pattern: /\bprepone(d)?\b/i,
+    fix: (m) => m[1] ? 'brought forward' : 'bring forward',
+    explanation: "'Prepone' is Indian English; most speakers say 'bring forward'.",
+    category: 'word-choice',
+    severity: 'minor'
+  },
+  {
+    pattern: /(^|\s)i(?=\s|')/,
+    fix: (m) => `${m[1]}I`,
+    explanation: "Always write the pronoun 'I' as a capital letter.",
+    category: 'spelling',
+    severity: 'minor'
+  }
+];
+
+// Every rule that matches contributes one correction, with spans into the text
+const findMockCorrections = (text: string): Correction[] => {
+  const corrections: Correction[] = [];
+  for (const rule of CORRECTION_RULES) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      corrections.push({
+        original: match[0].trim(),
+        corrected: rule.fix(match).trim(),
+        explanation: rule.explanation,
+        category: rule.category,
+        severity: rule.severity
+      });
+    }
+  }
+  return locateCorrections(text, corrections);
+};
+
+// --- Vocabulary Bank ---
+
+// Three kinds per band, matching the Gemini prompt: challenging, professional, idiomatic
+const VOCAB_BANK: Record<'basic' | 'independent' | 'proficient', VocabSeed[][]> = {
+  basic: [
+    [
+      { word: 'crowded', pronunciation: 'KROW-did', partOfSpeech: 'adjective', definition: 'Full of people, with little space to move.', example: 'The bus was very crowded this morning.', indianContextExample: 'Local trains in Mumbai are crowded during office hours.' },
+      { word: 'borrow', pronunciation: 'BOR-oh', partOfSpeech: 'verb', definition: 'To take something from someone and give it back later.', example: 'Can I borrow your pen?', indianContextExample: 'She borrowed her cousin\'s lehenga for the wedding.' },
+      { word: 'nearby', pronunciation: 'neer-BY', partOfSpeech: 'adverb', definition: 'Not far away.', example: 'Is there a pharmacy nearby?', indianContextExample: 'There is a chai stall nearby where we meet every evening.' }
+    ],
+    [
+      { word: 'schedule', pronunciation: 'SKED-jool', partOfSpeech: 'noun', definition: 'A plan that lists when things will happen.', example: 'My schedule is full on Monday.', indianContextExample: 'The exam schedule was posted on the college notice board.' },
+      { word: 'apply', pronunciation: 'uh-PLY', partOfSpeech: 'verb', definition: 'To make a formal request for a job or place.', example: 'I want to apply for this job.', indianContextExample: 'He applied for a government job through the online portal.' },
+      { word: 'salary', pronunciation: 'SAL-uh-ree', partOfSpeech: 'noun', definition: 'Money you receive every month for your work.', example: 'Her salary is paid on the first of the month.', indianContextExample: 'The salary was credited to his account before Diwali.' }
+    ],
+    [
+      { word: 'piece of cake', pronunciation: 'PEES uv KAYK', partOfSpeech: 'idiom', definition: 'Something very easy to do.', example: 'The test was a piece of cake.', indianContextExample: 'Making rotis is a piece of cake for my grandmother.' },
+      { word: 'on time', pronunciation: 'on TYM', partOfSpeech: 'phrase', definition: 'At the correct time; not late.', example: 'Please come on time tomorrow.', indianContextExample: 'The Rajdhani Express arrived on time for once!' },
+      { word: 'catch up', pronunciation: 'KACH up', partOfSpeech: 'phrasal verb', definition: 'To meet and talk after some time apart.', example: 'Let\'s catch up this weekend.', indianContextExample: 'We catch up with college friends every Holi.' }
+    ]
+  ],
+  independent: [
+    [
+      { word: 'reluctant', pronunciation: 'ri-LUK-tuhnt', partOfSpeech: 'adjective', definition: 'Not willing to do something.', example: 'He was reluctant to speak in the meeting.', indianContextExample: 'My father was reluctant to switch from cash to UPI.' },
+      { word: 'overwhelming', pronunciation: 'oh-ver-WEL-ming', partOfSpeech: 'adjective', definition: 'Very strong or great, and hard to deal with.', example: 'The response to the event was overwhelming.', indianContextExample: 'The crowd at the Ganpati pandal was overwhelming.' },
+      { word: 'cope', pronunciation: 'KOHP', partOfSpeech: 'verb', definition: 'To deal successfully with a difficult situation.', example: 'She coped well with the pressure.', indianContextExample: 'Students learn to cope with board exam stress in many ways.' }
+    ],
+    [
+      { word: 'deadline', pronunciation: 'DED-lyn', partOfSpeech: 'noun', definition: 'The time by which something must be finished.', example: 'The deadline for the report is Friday.', indianContextExample: 'The deadline for filing income tax returns is 31st July.' },
+      { word: 'negotiate', pronunciation: 'ni-GOH-shee-ayt', partOfSpeech: 'verb', definition: 'To discuss something to reach an agreement.', example: 'We negotiated a better price.', indianContextExample: 'She negotiated the rent with the landlord before signing.' },
+      { word: 'feasible', pronunciation: 'FEE-zuh-buhl', partOfSpeech: 'adjective', definition: 'Possible and practical to do.', example: 'Is the plan feasible within our budget?', indianContextExample: 'Opening a branch in Pune is feasible next year.' }
+    ],
+    [
+      { word: 'break the ice', pronunciation: 'brayk thee AYS', partOfSpeech: 'idiom', definition: 'To make people feel relaxed when they first meet.', example: 'He told a joke to break the ice.', indianContextExample: 'Antakshari is a great way to break the ice on a family trip.' },
+      { word: 'get the hang of', pronunciation: 'get thuh HANG uv', partOfSpeech: 'idiom', definition: 'To learn how to do something.', example: 'You will get the hang of it soon.', indianContextExample: 'She finally got the hang of driving in Bengaluru traffic.' },
+      { word: 'on the same page', pronunciation: 'on thuh SAYM payj', partOfSpeech: 'idiom', definition: 'Agreeing or understanding something in the same way.', example: 'Let\'s make sure we are on the same page.', indianContextExample: 'Both families were on the same page about the wedding budget.' }
+    ]
+  ],
+  proficient: [
+    [
+      { word: 'ubiquitous', pronunciation: 'yoo-BIK-wi-tuhs', partOfSpeech: 'adjective', definition: 'Found everywhere.', example: 'Smartphones have become ubiquitous.', indianContextExample: 'QR codes for UPI payments are ubiquitous, even at vegetable carts.' },
+      { word: 'pragmatic', pronunciation: 'prag-MAT-ik', partOfSpeech: 'adjective', definition: 'Dealing with problems in a practical way.', example: 'We need a pragmatic solution.', indianContextExample: 'Taking the metro was the pragmatic choice during monsoon.' },
+      { word: 'exacerbate', pronunciation: 'ig-ZAS-er-bayt', partOfSpeech: 'verb', definition: 'To make a problem worse.', example: 'The delay exacerbated the situation.', indianContextExample: 'Stubble burning exacerbates Delhi\'s winter smog.' }
+    ],
+    [
+      { word: 'stakeholder', pronunciation: 'STAYK-hohl-der', partOfSpeech: 'noun', definition: 'A person with an interest in a project or business.', example: 'All stakeholders approved the plan.', indianContextExample: 'Farmers are key stakeholders in the new agricultural policy.' },
+      { word: 'leverage', pronunciation: 'LEV-er-ij', partOfSpeech: 'verb', definition: 'To use something to maximum advantage.', example: 'We can leverage our existing network.', indianContextExample: 'Startups leverage India\'s digital public infrastructure to scale fast.' },
+      { word: 'mitigate', pronunciation: 'MIT-i-gayt', partOfSpeech: 'verb', definition: 'To make something less harmful or serious.', example: 'These steps will mitigate the risk.', indianContextExample: 'The city planted trees to mitigate the effects of heatwaves.' }
+    ],
+    [
+      { word: 'bite the bullet', pronunciation: 'byt thuh BUL-it', partOfSpeech: 'idiom', definition: 'To accept something difficult that cannot be avoided.', example: 'I bit the bullet and booked the expensive flight.', indianContextExample: 'He bit the bullet and took the night bus to reach the interview.' },
+      { word: 'the elephant in the room', pronunciation: 'thee EL-uh-fuhnt in thuh ROOM', partOfSpeech: 'idiom', definition: 'An obvious problem that no one wants to discuss.', example: 'The budget cut was the elephant in the room.', indianContextExample: 'At the family dinner, the pending property dispute was the elephant in the room.' },
+      { word: 'cut corners', pronunciation: 'kut KOR-ners', partOfSpeech: 'idiom', definition: 'To do something badly to save time or money.', example: 'Don\'t cut corners on safety.', indianContextExample: 'The contractor cut corners, and the road had potholes after one monsoon.' }
+    ]
+  ]
+};
+
+const bandForLevel = (level: CEFRLevel): keyof typeof VOCAB_BANK => {
+  if (level === CEFRLevel.A1 || level === CEFRLevel.A2) return 'basic';
+  if (level === CEFRLevel.B1 || level === CEFRLevel.B2) return 'independent';
+  return 'proficient';
+};
+
+// --- Phrasebook ---
+
+type PhraseResult = Omit<TranslationResult, 'sourceLanguage'>;
+
+const PHRASEBOOK: Array<{ match: RegExp; language: LanguageCode; result: PhraseResult }> = [
+  {
+    match: /(आप कैसे हैं|aap kaise (ho|hain))/i,
+    language: 'hi',
+    result: { simple: 'How are you?', enhanced: 'How have you been?', context: 'Meeting a colleague after a long weekend: "Hi Ravi, how have you been?"' }
+  },
+  {
+    match: /(मुझे भूख लगी है|mujhe bhookh? lagi hai)/i,
+    language: 'hi',
+    result: { simple: 'I am hungry.', enhanced: "I'm quite hungry; shall we grab a bite?", context: 'After a long meeting: "I\'m quite hungry; shall we grab a bite before the next call?"' }
+  },
+  {
+    match: /(मैं देर से आऊंगा|main late aaunga|main der se aaunga)/i,
+    language: 'hi',
+    result: { simple: 'I will come late.', enhanced: "I'm running a little late and will be there shortly.", context: 'Messaging your manager: "I\'m running a little late and will be there shortly."' }
+  },
+  {
+    match: /(धन्यवाद|shukriya|dhanyavaad)/i,
+    language: 'hi',
+    result: { simple: 'Thank you.', enhanced: 'Thank you so much, I really appreciate it.', context: 'When a neighbour helps with groceries: "Thank you so much, I really appreciate it."' }
+  },
+  {
+    match: /(क्या आप मेरी मदद कर सकते हैं|kya aap meri madad kar sakte)/i,
+    language: 'hi',
+    result: { simple: 'Can you help me?', enhanced: 'Would you mind helping me with this?', context: 'At the bank counter: "Would you mind helping me with this form?"' }
+  },
+  {
+    match: /(मुझे समझ नहीं आया|mujhe samajh nahi aaya)/i,
+    language: 'hi',
+    result: { simple: 'I did not understand.', enhanced: "Sorry, I didn't quite follow. Could you explain that again?", context: 'In an online class: "Sorry, I didn\'t quite follow. Could you explain that again?"' }
+  },
+  {
+    match: /(நன்றி|nandri)/i,
+    language: 'ta',
+    result: { simple: 'Thank you.', enhanced: 'Thanks a lot, that was really kind of you.', context: 'After a friend drops you at the station: "Thanks a lot, that was really kind of you."' }
+  },
+  {
+    match: /(எப்படி இருக்கீங்க|eppadi irukeenga)/i,
+    language: 'ta',
+    result: { simple: 'How are you?', enhanced: "How are you doing? It's been a while.", context: 'Calling an old classmate: "How are you doing? It\'s been a while."' }
+  },
+  {
+    match: /(ధన్యవాదాలు|dhanyavadalu)/i,
+    language: 'te',
+    result: { simple: 'Thank you.', enhanced: 'Thank you, I really appreciate your help.', context: 'To a colleague who covered your shift: "Thank you, I really appreciate your help."' }
+  },
+  {
+    match: /(ধন্যবাদ|dhonnobad)/i,
+    language: 'bn',
+    result: { simple: 'Thank you.', enhanced: 'Thank you, that means a lot to me.', context: 'When a teacher praises your work: "Thank you, that means a lot to me."' }
+  }
+];
+
+// Offline stand-in for language detection: the script usually gives the language away.
+// Devanagari could also be Marathi, and romanised text could be anything, so those
+// fall back to Hindi and English respectively.
+const SCRIPT_LANGUAGES: Array<{ range: RegExp; language: LanguageCode }> = [
+  { range: /[\u0900-\u097F]/, language: 'hi' },
+  { range: /[\u0980-\u09FF]/, language: 'bn' },
+  { range: /[\u0A00-\u0A7F]/, language: 'pa' },
+  { range: /[\u0A80-\u0AFF]/, language: 'gu' },
+  { range: /[\u0B80-\u0BFF]/, language: 'ta' },
+  { range: /[\u0C00-\u0C7F]/, language: 'te' },
+  { range: /[\u0C80-\u0CFF]/, language: 'kn' },
+  { range: /[\u0D00-\u0D7F]/, language: 'ml' },
+  { range: /[\u0600-\u06FF]/, language: 'ur' }
+];
+
+const detectLanguage = (text: string): LanguageCode =>
+  SCRIPT_LANGUAGES.find(item => item.range.test(text))?.language || 'en';
+
+// --- Report Heuristics ---
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const levelFromScore = (score: number): CEFRLevel => {
+  if (score >= 85) return CEFRLevel.C1;
+  if (score >= 72) return CEFRLevel.B2;
+  if (score >= 58) return CEFRLevel.B1;
+  if (score >= 42) return CEFRLevel.A2;
+  return CEFRLevel.A1;
+};
+
+// --- Provider ---
+
+export const createMockProvider = (): TutorProvider => {
+  const startChatSession: TutorProvider['startChatSession'] = async (profile, lesson) => {
+    await delay();
+    const summary: ConversationSummary = { topic: lesson.title, studentFacts: [], correctedMistakes: [], notes: '' };
+    let turn = 0;
+
+    const reply = (message: string): TutorReply => {
+      const wordCount = message.trim().split(/\s+/).filter(Boolean).length;
+      const bucket = wordCount < 6 ? 'short' : wordCount < 18 ? 'medium' : 'long';
+      const acknowledgement = pick(ACKNOWLEDGEMENTS[bucket], message);
+      const followUp = buildFollowUp(lesson, turn);
+      turn += 1;
+
+      const facts = (message.match(STUDENT_FACT_PATTERN) || []).map(fact => fact.trim());
+      summary.studentFacts = [...summary.studentFacts, ...facts].slice(-MAX_SUMMARY_ITEMS);
+      summary.notes = `Turn ${turn} of the lesson "${lesson.title}".`;
+
+      // Same rule as the Gemini prompt: a mistake is only corrected once per lesson
+      const corrections = findMockCorrections(message).filter(correction => !summary.correctedMistakes.includes(correctionKey(correction)));
+      summary.correctedMistakes = [...summary.correctedMistakes, ...corrections.map(correctionKey)].slice(-MAX_SUMMARY_ITEMS);
+
+      return { text: `${acknowledgement} ${followUp}`, corrections };
+    };
+
+    const sendMessage: TutorSession['sendMessage'] = async (message) => {
+      await delay();
+      return reply(message);
+    };
+
+    const streamMessage: TutorSession['streamMessage'] = async (message, onText) => {
+      await delay();
+      const result = reply(message);
+      // Replay the scripted reply word by word to mimic a streamed response
+      const words = result.text.split(' ');
+      for (let i = 1; i <= words.length; i++) {
+        await delay(60);
+        onText(words.slice(0, i).join(' '));
+      }
+      return result;
+    };
+
+    return {
+      topic: lesson.title,
+      openingText: lesson.warmUpQuestion,
+      sendMessage,
+      streamMessage,
+      getSummary: () => ({ ...summary })
+    };
+  };
+
+  const translateText: TutorProvider['translateText'] = async (text, source) => {
+    await delay();
+    const entry = PHRASEBOOK.find(item => item.match.test(text));
+    if (entry) return { sourceLanguage: source === 'auto' ? entry.language : source, ...entry.result };
+
+    // Unknown input: treat it as rough English and polish it with the correction rules
+    const simple = findMockCorrections(text)
+      .reduceRight((result, correction) => correction.span
+        ? result.slice(0, correction.span.start) + correction.corrected + result.slice(correction.span.end)
+        : result, text)
+      .trim();
+    return {
+      sourceLanguage: source === 'auto' ? detectLanguage(text) : source,
+      simple,
+      enhanced: simple,
+      context: 'Offline mode only knows a few common phrases. Connect a Gemini API key for full translations.'
+    };
+  };
+
+  // Bank lists are in the same order as the word kinds. Known words are skipped, so each
+  // day moves further through the bank; higher bands fill in once the learner's runs out.
+  const generateDailyVocab: TutorProvider['generateDailyVocab'] = async (level, { size, knownWords }) => {
+    await delay();
+    const known = new Set(knownWords.map(word => word.toLowerCase()));
+    const plan = planBatch(size);
+    const bands = Object.keys(VOCAB_BANK) as (keyof typeof VOCAB_BANK)[];
+    const available = bands.slice(bands.indexOf(bandForLevel(level)));
+
+    const seeds = (Object.keys(plan) as WordKind[]).flatMap((kind, index) =>
+      available
+        .flatMap(band => VOCAB_BANK[band][index])
+        .filter(seed => !known.has(seed.word.toLowerCase()))
+        .slice(0, plan[kind])
+    );
+
+    return seeds.map((seed, index) => ({
+      ...seed,
+      id: `vocab-${Date.now()}-${index}`,
+      status: 'new' as const,
+      lastReviewed: Date.now()
+    }));
+  };
+
+  // Offline harvest: corrected phrasings become phrase cards, and bank words at or above
+  // the learner's band are picked up wherever the tutor used them
+  const harvestVocab: TutorProvider['harvestVocab'] = async (history, level, knownWords) => {
+    await delay();
+    const known = new Set(knownWords.map(word => word.toLowerCase()));
+    const seeds: VocabSeed[] = [];
+    const propose = (seed: VocabSeed) => {
+      if (known.has(seed.word.toLowerCase())) return;
+      known.add(seed.word.toLowerCase());
+      seeds.push(seed);
+    };
+
+    history.flatMap(msg => msg.corrections || []).forEach(correction => propose({
+      word: correction.corrected,
+      pronunciation: '',
+      partOfSpeech: 'phrase',
+      definition: correction.explanation,
+      example: `Not "${correction.original}" but "${correction.corrected}".`,
+      indianContextExample: ''
+    }));
+
+    const bands = Object.keys(VOCAB_BANK) as (keyof typeof VOCAB_BANK)[];
+    const tutorText = history.filter(msg => msg.role === 'model').map(msg => msg.text.toLowerCase()).join(' ');
+    bands.slice(bands.indexOf(bandForLevel(level)))
+      .flatMap(band => VOCAB_BANK[band].flat())
+      .filter(seed => tutorText.includes(seed.word.toLowerCase()))
+      .forEach(propose);
+
+    return seeds.slice(0, 6).map((seed, index) => ({
+      ...seed,
+      id: `harvest-${Date.now()}-${index}`,
+      status: 'new' as const,
+      lastReviewed: Date.now()
+    }));
+  };
+
+  // Offline lookup: bank words come back complete; anything else gets a starter card
+  // for the learner to finish, built around the sentence they saw it in
+  const enrichWord: TutorProvider['enrichWord'] = async (word, context) => {
+    await delay();
+    const known = Object.values(VOCAB_BANK).flat(2).find(seed => seed.word.toLowerCase() === word.trim().toLowerCase());
+    const seed: VocabSeed = known || {
+      word: word.trim(),
+      pronunciation: '',
+      partOfSpeech: /\s/.test(word.trim()) ? 'phrase' : '',
+      definition: `(Add your own meaning of "${word.trim()}".)`,
+      example: context.trim() || `I learned the word "${word.trim()}" today.`,
+      indianContextExample: ''
+    };
+
+    return {
+      ...seed,
+      id: `custom-${Date.now()}`,
+      status: 'new',
+      lastReviewed: Date.now()
+    };
+  };
+
+  const evaluateProgress: TutorProvider['evaluateProgress'] = async (history) => {
+    await delay(800);
+    const userMessages = history.filter(msg => msg.role === 'user').map(msg => msg.text);
+    const words = userMessages.join(' ').toLowerCase().match(/[a-z']+/g) || [];
+    const avgLength = words.length / Math.max(1, userMessages.length);
+    const uniqueRatio = new Set(words).size / Math.max(1, words.length);
+    const errorRate = userMessages.reduce((count, text) => count + findMockCorrections(text).length, 0) / Math.max(1, userMessages.length);
+    const connectors = words.filter(word => ['because', 'so', 'however', 'although', 'but', 'then', 'also'].includes(word)).length;
+
+    const grammarScore = clampScore(90 - errorRate * 60);
+    const vocabularyScore = clampScore(30 + uniqueRatio * 60 + Math.min(words.length, 200) / 20);
+    const fluencyScore = clampScore(25 + avgLength * 3.5);
+    const coherenceScore = clampScore(40 + connectors * 6 + Math.min(userMessages.length, 10) * 2);
+    const average = (grammarScore + vocabularyScore + fluencyScore + coherenceScore) / 4;
+
+    const scored = [
+      { skill: 'grammar', score: grammarScore, strength: 'Accurate verb forms in most sentences.', improvement: 'Review verb tenses and subject-verb agreement.' },
+      { skill: 'vocabulary', score: vocabularyScore, strength: 'Good range of everyday vocabulary.', improvement: 'Use more topic-specific and less repetitive words.' },
+      { skill: 'fluency', score: fluencyScore, strength: 'Gives full answers instead of single words.', improvement: 'Try to answer in two or three connected sentences.' },
+      { skill: 'coherence', score: coherenceScore, strength: 'Links ideas with connectors like "because" and "however".', improvement: 'Use linking words to connect your ideas.' }
+    ].sort((a, b) => b.score - a.score);
+
+    const report: DetailedReport = {
+      grammarScore,
+      vocabularyScore,
+      fluencyScore,
+      coherenceScore,
+      overallCEFR: levelFromScore(average),
+      strengths: scored.slice(0, 3).map(item => item.strength),
+      improvements: scored.slice(-3).reverse().map(item => item.improvement),
+      actionPlan: `Focus on ${scored[scored.length - 1].skill} this week. Practise one short lesson a day and repeat the corrected sentences aloud.`,
+      generatedAt: Date.now()
+    };
+    return report;
+  };
+
+  return {
+    id: 'mock',
+    startChatSession,
+    translateText,
+    generateDailyVocab,
+    harvestVocab,
+    enrichWord,
+    evaluateProgress
+  };
+};
@@ -0,0 +1,56 @@
+import { ChatMessage, Correction, CurriculumLesson, VocabWord, CEFRLevel, DetailedReport, LanguageCode } from '../../types';
+import type { SourceChoice } from '../languages';
+import type { TutorProfile } from '../prompts';
+
+export interface TutorReply {
+  text: string;
+  // Mistakes in the student's message, with spans into that message
+  corrections: Correction[];
+}
+
+export interface TranslationResult {
+  // The language the input was in: as requested, or as detected for 'auto'
+  sourceLanguage: LanguageCode;
+  simple: string;
+  enhanced: string;
+  context: string;
+}
+
+// Rolling memory of a lesson: older turns are condensed into this and fed back into context
+export interface ConversationSummary {
+  topic: string;
+  studentFacts: string[];
+  correctedMistakes: string[];
+  notes: string;
+}
+
+// One live tutoring lesson. Created by startChatSession and kept for the whole lesson,
+// so the tutor remembers the topic and earlier turns without the caller replaying history.
+export interface TutorSession {
+  topic: string;
+  openingText: string;
+  sendMessage: (message: string) => Promise<TutorReply>;
+  // Calls onText with the reply text received so far; resolves with the full reply and corrections
+  streamMessage: (message: string, onText: (text: string) => void) => Promise<TutorReply>;
+  getSummary: () => ConversationSummary;
+}
+
+export interface DailyVocabOptions {
+  size: number;
+  // Words already in the deck, which must not be suggested again
+  knownWords: string[];
+}
+
+// Every tutor operation the screens rely on goes through one of these.
+// geminiService picks the active provider; screens never talk to a provider directly.
+export interface TutorProvider {
+  id: 'gemini' | 'mock';
+  startChatSession: (profile: TutorProfile, lesson: CurriculumLesson) => Promise<TutorSession>;
+  translateText: (text: string, source: SourceChoice) => Promise<TranslationResult>;
+  generateDailyVocab: (level: CEFRLevel, options: DailyVocabOptions) => Promise<VocabWord[]>;
+  // Words and phrases worth learning from a finished lesson, skipping `knownWords`
+  harvestVocab: (history: ChatMessage[], level: CEFRLevel, knownWords: string[]) => Promise<VocabWord[]>;
+  // Fills in a learner-entered word or phrase; `context` is the sentence it was seen in, if given
+  enrichWord: (word: string, context: string, level: CEFRLevel) => Promise<VocabWord>;
+  evaluateProgress: (history: ChatMessage[]) => Promise<DetailedReport>;
+}
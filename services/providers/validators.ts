@@ -0,0 +1,64 @@
+import { Correction, DetailedReport, VocabWord } from '../../types';
+import { TranslationResult } from './types';
+import { arrayOf, objectOf, oneOf, optional, score, text, withDefault } from '../structuredOutput';
+import { CORRECTION_CATEGORIES, CORRECTION_SEVERITIES } from '../corrections';
+import { LANGUAGE_CODES } from '../languages';
+import { CEFR_LEVELS } from '../reports';
+
+// Runtime shapes for model responses. They mirror the Gemini response schemas,
+// which the model usually, but not always, respects.
+
+// Spans are computed locally (see locateCorrections), never taken from the model
+export const correctionShape = objectOf<Omit<Correction, 'span'>>({
+  original: text(),
+  corrected: text(),
+  explanation: text(),
+  category: withDefault(oneOf(CORRECTION_CATEGORIES), 'other'),
+  severity: withDefault(oneOf(CORRECTION_SEVERITIES), 'moderate')
+});
+
+// Raw tutor JSON uses `response` for the spoken text. A single malformed correction is
+// dropped rather than failing the whole reply.
+export const tutorReplyShape = objectOf<{ response: string; corrections: Omit<Correction, 'span'>[] }>({
+  response: text(),
+  corrections: withDefault(arrayOf(optional(correctionShape)), [])
+});
+
+export const translationShape = objectOf<TranslationResult>({
+  sourceLanguage: oneOf(LANGUAGE_CODES),
+  simple: text(),
+  enhanced: text(),
+  context: text()
+});
+
+export type VocabSeed = Omit<VocabWord, 'id' | 'status' | 'lastReviewed' | 'schedule' | 'reviewLog'>;
+
+export const vocabSeedShape = objectOf<VocabSeed>({
+  word: text(),
+  pronunciation: text(),
+  partOfSpeech: text(),
+  definition: text(),
+  example: text(),
+  indianContextExample: text()
+});
+
+export const vocabListShape = arrayOf(vocabSeedShape, { min: 1 });
+
+// Harvest may legitimately find nothing; incomplete entries are dropped
+export const vocabHarvestShape = arrayOf(optional(vocabSeedShape));
+
+export const reportShape = objectOf<Omit<DetailedReport, 'generatedAt'>>({
+  grammarScore: score(),
+  vocabularyScore: score(),
+  fluencyScore: score(),
+  coherenceScore: score(),
+  overallCEFR: oneOf(CEFR_LEVELS),
+  strengths: arrayOf(text(), { min: 1 }),
+  improvements: arrayOf(text(), { min: 1 }),
+  actionPlan: text()
+});
+
+export const summaryUpdateShape = objectOf<{ studentFacts: string[]; notes: string }>({
+  studentFacts: arrayOf(text()),
+  notes: text()
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewLogEntry, VocabWord } from '../types';
+import { generateQuestion, QuizQuestion, scoreAnswer } from './quiz';
+
+const word = (id: string, text: string, definition: string, patch: Partial<VocabWord> = {}): VocabWord => ({
+  id, word: text, pronunciation: '', partOfSpeech: 'noun', definition, example: '', indianContextExample: '',
+  status: 'reviewing', lastReviewed: 0, ...patch
+});
+
+// generateQuestion rotates through the kinds by the number of past reviews
+const reviews = (count: number): ReviewLogEntry[] =>
+  Array.from({ length: count }, (_, i) => ({ reviewedAt: i, grade: 'good', interval: 1 }));
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9' ]/g, '');
+
+describe('generateQuestion', () => {
+  const target = word('w-1', 'crowded', 'Full of people.');
+
+  it('never repeats an option or offers the answer twice, whatever the deck', () => {
+    const deck = [
+      target,
+      word('w-2', 'packed', 'Full of people'),
+      word('w-3', 'jammed', ' full of PEOPLE. '),
+      word('w-4', 'nearby', 'Not far away.'),
+      word('w-5', 'close', 'Not far away.'),
+      word('w-6', 'borrow', 'To take and give back later.'),
+      word('w-7', 'lend', 'To take and give back later.'),
+      word('w-8', 'empty', '')
+    ];
+    for (let i = 0; i < 50; i++) {
+      const question = generateQuestion(target, deck);
+      expect(question.kind).toBe('definition');
+      const options = question.options!.map(normalize);
+      expect(new Set(options).size).toBe(options.length);
+      expect(options.filter(o => o === normalize(target.definition))).toHaveLength(1);
+      expect(question.options).toContain(target.definition);
+    }
+  });
+
+  it('falls back to another kind when a small deck has too few distinct definitions', () => {
+    const deck = [target, word('w-2', 'packed', 'Full of people'), word('w-3', 'nearby', 'Not far away.'), word('w-4', 'close', 'Not far away.')];
+    for (let i = 0; i < 20; i++) {
+      expect(generateQuestion(target, deck).kind).not.toBe('definition');
+    }
+  });
+
+  it('blanks the word, or an inflection of it, out of the example for a cloze', () => {
+    const card = word('w-1', 'borrow', 'To take and give back.', { example: 'She borrowed my pen.', reviewLog: reviews(1) });
+    expect(generateQuestion(card, [card])).toMatchObject({ kind: 'cloze', prompt: 'She _____ my pen.', answer: 'borrowed' });
+  });
+
+  it('offers distinct parts of speech with the right one among them', () => {
+    const card = word('w-1', 'crowded', 'Full of people.', { partOfSpeech: 'Adjective', reviewLog: reviews(3) });
+    const deck = [card, word('w-2', 'quickly', 'Fast.', { partOfSpeech: 'adverb' }), word('w-3', 'busy', 'Occupied.', { partOfSpeech: 'adjective ' })];
+    const question = generateQuestion(card, deck);
+    expect(question.kind).toBe('part-of-speech');
+    expect(question.answer).toBe('adjective');
+    expect(new Set(question.options).size).toBe(question.options!.length);
+    expect(question.options!.filter(o => o === 'adjective')).toHaveLength(1);
+  });
+});
+
+describe('scoreAnswer', () => {
+  const typed: QuizQuestion = { kind: 'spelling', wordId: 'w-1', prompt: '', answer: 'deadline' };
+  const choice: QuizQuestion = { ...typed, kind: 'definition', options: ['deadline', 'headline'] };
+  const short: QuizQuestion = { ...typed, answer: 'lend' };
+
+  it.each([
+    ['an exact answer', typed, 'deadline', { correct: true, grade: 'good' }],
+    ['case, spaces and punctuation', typed, '  Deadline! ', { correct: true, grade: 'good' }],
+    ['one typo in a long typed answer', typed, 'dedline', { correct: true, grade: 'hard' }],
+    ['two typos', typed, 'dedlien', { correct: false, grade: 'again' }],
+    ['one typo in a short word', short, 'lent', { correct: false, grade: 'again' }],
+    ['a near miss in multiple choice', choice, 'headline', { correct: false, grade: 'again' }]
+  ])('scores %s', (_, question, response, expected) => {
+    expect(scoreAnswer(question, response)).toEqual(expected);
+  });
+});
@@ -0,0 +1,116 @@
+import { ReviewGrade, VocabWord } from '../types';
+import { editDistance } from './similarity';
+
+// Auto-scored exercises generated from a card's own fields, with distractors drawn from
+// the rest of the deck. The result is turned into a review grade for the scheduler.
+
+export type QuizKind = 'definition' | 'cloze' | 'spelling' | 'part-of-speech';
+
+export interface QuizQuestion {
+  kind: QuizKind;
+  wordId: string;
+  prompt: string;
+  // Multiple choice when present, otherwise a typed answer
+  options?: string[];
+  answer: string;
+  // Text to read aloud for listening questions
+  audio?: string;
+}
+
+export const QUIZ_LABELS: Record<QuizKind, string> = {
+  definition: 'Pick the meaning',
+  cloze: 'Fill the blank',
+  spelling: 'Listen and spell',
+  'part-of-speech': 'Word type'
+};
+
+const COMMON_PARTS_OF_SPEECH = ['noun', 'verb', 'adjective', 'adverb', 'idiom', 'phrase', 'phrasal verb'];
+const OPTION_COUNT = 4;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeAnswer = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9' ]/g, '').replace(/\s+/g, ' ');
+
+// The example sentence with the word (or a simple inflection of it) blanked out
+const buildCloze = (word: VocabWord): { sentence: string; answer: string } | undefined => {
+  const pattern = new RegExp(`\\b${escapeRegExp(word.word)}(s|es|d|ed|ing)?\\b`, 'i');
+  for (const sentence of [word.example, word.indianContextExample]) {
+    const match = sentence && sentence.match(pattern);
+    if (match && match.index !== undefined) {
+      return {
+        sentence: sentence.slice(0, match.index) + '_____' + sentence.slice(match.index + match[0].length),
+        answer: match[0]
+      };
+    }
+  }
+  return undefined;
+};
+
+const buildQuestion = (kind: QuizKind, word: VocabWord, deck: VocabWord[]): QuizQuestion | undefined => {
+  const others = deck.filter(w => w.id !== word.id);
+
+  switch (kind) {
+    case 'definition': {
+      // One option per distinct definition: options double as React keys, and two
+      // identical choices (or a copy of the answer) would make the question unfair
+      const pool = new Map(others.filter(w => w.definition).map(w => [normalizeAnswer(w.definition), w.definition]));
+      pool.delete(normalizeAnswer(word.definition));
+      const distractors = shuffle([...pool.values()]).slice(0, OPTION_COUNT - 1);
+      if (distractors.length < 2) return undefined;
+      return { kind, wordId: word.id, prompt: word.word, options: shuffle([word.definition, ...distractors]), answer: word.definition };
+    }
+    case 'cloze': {
+      const cloze = buildCloze(word);
+      if (!cloze) return undefined;
+      return { kind, wordId: word.id, prompt: cloze.sentence, answer: cloze.answer };
+    }
+    case 'spelling':
+      return { kind, wordId: word.id, prompt: 'Type the word you hear.', answer: word.word, audio: word.word };
+    case 'part-of-speech': {
+      const correct = word.partOfSpeech.trim().toLowerCase();
+      if (!correct) return undefined;
+      const pool = new Set([...others.map(w => w.partOfSpeech.trim().toLowerCase()), ...COMMON_PARTS_OF_SPEECH]);
+      pool.delete(correct);
+      const distractors = shuffle([...pool].filter(Boolean)).slice(0, OPTION_COUNT - 1);
+      return { kind, wordId: word.id, prompt: word.word, options: shuffle([correct, ...distractors]), answer: correct };
+    }
+  }
+};
+
+// A question for the card, rotating through the kinds it supports so the same card
+// is not always tested the same way
+export const generateQuestion = (word: VocabWord, deck: VocabWord[]): QuizQuestion => {
+  const kinds = Object.keys(QUIZ_LABELS) as QuizKind[];
+  const start = (word.reviewLog || []).length % kinds.length;
+  for (let i = 0; i < kinds.length; i++) {
+    const question = buildQuestion(kinds[(start + i) % kinds.length], word, deck);
+    if (question) return question;
+  }
+  // Spelling is always possible
+  return buildQuestion('spelling', word, deck)!;
+};
+
+export interface QuizResult {
+  correct: boolean;
+  grade: ReviewGrade;
+}
+
+// Exact answers are "good"; a one-letter slip on a typed answer of 5+ letters is "hard"
+export const scoreAnswer = (question: QuizQuestion, response: string): QuizResult => {
+  const given = normalizeAnswer(response);
+  const expected = normalizeAnswer(question.answer);
+  if (given === expected) return { correct: true, grade: 'good' };
+  if (!question.options && expected.length >= 5 && editDistance(given, expected) === 1) {
+    return { correct: true, grade: 'hard' };
+  }
+  return { correct: false, grade: 'again' };
+};
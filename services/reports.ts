@@ -0,0 +1,54 @@
+import { CEFRLevel, DetailedReport } from '../types';
+
+// Report history: every generated report is kept (oldest first) so progress can be
+// charted over time and any two reports compared.
+
+export type ReportScore = 'grammarScore' | 'vocabularyScore' | 'fluencyScore' | 'coherenceScore';
+
+export const REPORT_SCORES: { key: ReportScore; label: string; color: string }[] = [
+  { key: 'grammarScore', label: 'Grammar', color: '#3B82F6' },
+  { key: 'vocabularyScore', label: 'Vocabulary', color: '#14B8A6' },
+  { key: 'fluencyScore', label: 'Fluency', color: '#EC4899' },
+  { key: 'coherenceScore', label: 'Coherence', color: '#F59E0B' }
+];
+
+export const CEFR_LEVELS = Object.values(CEFRLevel) as CEFRLevel[];
+
+export const latestReportOf = (reports: DetailedReport[]): DetailedReport | null =>
+  reports.length > 0 ? reports[reports.length - 1] : null;
+
+// Keeps the history in date order; a report generated at the same moment replaces the old one
+export const insertReport = (reports: DetailedReport[], report: DetailedReport): DetailedReport[] =>
+  [...reports.filter(r => r.generatedAt !== report.generatedAt), report].sort((a, b) => a.generatedAt - b.generatedAt);
+
+export const formatReportDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// One row per report, for the trend charts
+export const reportTrend = (reports: DetailedReport[]) =>
+  reports.map(report => ({
+    generatedAt: report.generatedAt,
+    date: formatReportDate(report.generatedAt),
+    level: report.overallCEFR,
+    ...Object.fromEntries(REPORT_SCORES.map(({ key }) => [key, report[key]])) as Record<ReportScore, number>
+  }));
+
+export interface ReportComparison {
+  scores: { key: ReportScore; label: string; before: number; after: number; change: number }[];
+  levelChange: number; // steps on the CEFR scale, positive when the later report is higher
+}
+
+// `before` and `after` are put in date order, whichever way round they were picked
+export const compareReports = (a: DetailedReport, b: DetailedReport): ReportComparison => {
+  const [before, after] = a.generatedAt <= b.generatedAt ? [a, b] : [b, a];
+  return {
+    scores: REPORT_SCORES.map(({ key, label }) => ({
+      key,
+      label,
+      before: before[key],
+      after: after[key],
+      change: after[key] - before[key]
+    })),
+    levelChange: CEFR_LEVELS.indexOf(after.overallCEFR) - CEFR_LEVELS.indexOf(before.overallCEFR)
+  };
+};
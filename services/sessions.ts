@@ -0,0 +1,42 @@
+import { ActiveSession, ChatMessage, ChatSessionRecord, Correction } from '../types';
+
+// Lesson archive: when a lesson ends, its chat is kept as a session record instead of
+// being cleared, so it can be reread later and fed into progress reports.
+
+// How many of the most recent messages a progress report looks at
+export const REPORT_MESSAGE_LIMIT = 120;
+
+export const collectCorrections = (messages: ChatMessage[]): Correction[] =>
+  messages.flatMap(m => (m.role === 'user' && m.corrections) || []);
+
+// Null when the learner never said anything; an unanswered greeting isn't worth keeping
+export const buildSessionRecord = (active: ActiveSession | null, messages: ChatMessage[]): ChatSessionRecord | null => {
+  if (!messages.some(m => m.role === 'user')) return null;
+  const startedAt = active?.startedAt ?? messages[0].timestamp;
+  return {
+    id: active?.id ?? `session-${startedAt}`,
+    topic: active?.topic ?? 'Conversation',
+    lessonId: active?.lessonId,
+    startedAt,
+    endedAt: messages[messages.length - 1].timestamp,
+    messages,
+    corrections: collectCorrections(messages)
+  };
+};
+
+export const newActiveSession = (topic: string, lessonId?: string): ActiveSession => {
+  const startedAt = Date.now();
+  return { id: `session-${startedAt}`, topic, lessonId, startedAt };
+};
+
+// Archived lessons (most recent first) plus the running chat, oldest message first,
+// trimmed to the most recent `limit` messages
+export const recentMessages = (sessions: ChatSessionRecord[], chatHistory: ChatMessage[], limit = REPORT_MESSAGE_LIMIT): ChatMessage[] =>
+  [...sessions].reverse().flatMap(s => s.messages).concat(chatHistory).slice(-limit);
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
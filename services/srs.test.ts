@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { CardSchedule, VocabWord } from '../types';
+import { getDueWords, MASTERED_INTERVAL_DAYS, nextSchedule, reviewWord, scheduleOf } from './srs';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+// Midday local time, so "end of today" is half a day away in any time zone
+const NOW = new Date(2025, 9, 10, 12).getTime();
+
+const word = (id: string, patch: Partial<VocabWord> = {}): VocabWord => ({
+  id, word: id, pronunciation: '', partOfSpeech: '', definition: '', example: '', indianContextExample: '',
+  status: 'reviewing', lastReviewed: 0, ...patch
+});
+
+const schedule = (patch: Partial<CardSchedule> = {}): CardSchedule =>
+  ({ ease: 2.5, interval: 0, repetitions: 0, lapses: 0, dueAt: 0, ...patch });
+
+describe('nextSchedule', () => {
+  it.each([
+    ['hard', 1],
+    ['good', 1],
+    ['easy', 4]
+  ] as const)('gives a new card answered %s an interval of %i day(s)', (grade, interval) => {
+    const next = nextSchedule(schedule(), grade, NOW);
+    expect(next.interval).toBe(interval);
+    expect(next.repetitions).toBe(1);
+    expect(next.dueAt).toBe(NOW + interval * DAY);
+  });
+
+  it('grows a good card 1 → 3 → interval × ease', () => {
+    let card = schedule();
+    const intervals = [1, 2, 3].map(() => (card = nextSchedule(card, 'good', NOW)).interval);
+    expect(intervals).toEqual([1, 3, 8]);
+  });
+
+  it('always grows the interval by at least a day', () => {
+    expect(nextSchedule(schedule({ interval: 2, repetitions: 3, ease: 1.3 }), 'hard', NOW).interval).toBe(3);
+  });
+
+  it('brings a lapsed card back ten minutes later and counts the lapse', () => {
+    const next = nextSchedule(schedule({ interval: 30, repetitions: 4, ease: 2.5 }), 'again', NOW);
+    expect(next).toEqual({ ease: 2.3, interval: 0, repetitions: 0, lapses: 1, dueAt: NOW + 10 * MINUTE });
+  });
+
+  it('does not count a miss on a card still being learned as a lapse', () => {
+    expect(nextSchedule(schedule(), 'again', NOW).lapses).toBe(0);
+  });
+
+  it('never lowers ease below the floor', () => {
+    let card = schedule({ ease: 1.4, repetitions: 2, interval: 5 });
+    for (let i = 0; i < 5; i++) card = nextSchedule(card, i % 2 ? 'again' : 'hard', NOW);
+    expect(card.ease).toBe(1.3);
+  });
+
+  it('raises ease on an easy answer', () => {
+    expect(nextSchedule(schedule({ repetitions: 2, interval: 3 }), 'easy', NOW).ease).toBeCloseTo(2.65);
+  });
+});
+
+describe('reviewWord', () => {
+  it('marks a card mastered once its interval reaches the threshold', () => {
+    const almost = word('w', { schedule: schedule({ repetitions: 3, interval: 9, ease: 2.5 }) });
+    const reviewed = reviewWord(almost, 'good', NOW);
+    expect(reviewed.schedule!.interval).toBeGreaterThanOrEqual(MASTERED_INTERVAL_DAYS);
+    expect(reviewed.status).toBe('mastered');
+    expect(reviewed.lastReviewed).toBe(NOW);
+    expect(reviewed.reviewLog).toEqual([{ reviewedAt: NOW, grade: 'good', interval: reviewed.schedule!.interval }]);
+  });
+
+  it('moves a mastered card back to reviewing after a lapse', () => {
+    const mastered = word('w', { status: 'mastered', schedule: schedule({ repetitions: 5, interval: 40 }) });
+    expect(reviewWord(mastered, 'again', NOW).status).toBe('reviewing');
+  });
+});
+
+describe('scheduleOf', () => {
+  it('keeps an existing schedule', () => {
+    const existing = schedule({ interval: 6, repetitions: 2, dueAt: 123 });
+    expect(scheduleOf(word('w', { schedule: existing }))).toBe(existing);
+  });
+
+  it.each([
+    ['new', 0, 0],
+    ['reviewing', 0, 5000],
+    ['mastered', MASTERED_INTERVAL_DAYS, 5000 + MASTERED_INTERVAL_DAYS * DAY]
+  ] as const)('gives a legacy %s card interval %i', (status, interval, dueAt) => {
+    const legacy = scheduleOf(word('w', { status, lastReviewed: 5000 }));
+    expect(legacy).toMatchObject({ ease: 2.5, interval, lapses: 0, dueAt });
+  });
+});
+
+describe('getDueWords', () => {
+  it('returns cards due by the end of today, most overdue first', () => {
+    const words = [
+      word('later-today', { schedule: schedule({ dueAt: NOW + 6 * 60 * MINUTE }) }),
+      word('tomorrow', { schedule: schedule({ dueAt: NOW + DAY }) }),
+      word('last-week', { schedule: schedule({ dueAt: NOW - 7 * DAY }) }),
+      word('yesterday', { schedule: schedule({ dueAt: NOW - DAY }) }),
+      word('legacy-new', { status: 'new' })
+    ];
+    expect(getDueWords(words, NOW).map(w => w.id)).toEqual(['legacy-new', 'last-week', 'yesterday', 'later-today']);
+  });
+});
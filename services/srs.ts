@@ -0,0 +1,94 @@
+import { CardSchedule, ReviewGrade, VocabWord } from '../types';
+
+// SM-2 style scheduler for vocabulary cards. Each graded answer updates the card's ease and
+// interval; cards come back on their due date, including mastered ones, so they are
+// reviewed again before they are forgotten.
+
+const DAY = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY = 10 * 60 * 1000; // "again" brings the card back later in the same session
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_LOG_ENTRIES = 50;
+
+// A card whose interval has grown this long counts as mastered
+export const MASTERED_INTERVAL_DAYS = 21;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const endOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+// Cards reviewed before the scheduler existed get a schedule matching their old status
+export const scheduleOf = (word: VocabWord): CardSchedule => {
+  if (word.schedule) return word.schedule;
+  if (word.status === 'mastered') {
+    return { ease: DEFAULT_EASE, interval: MASTERED_INTERVAL_DAYS, repetitions: 3, lapses: 0, dueAt: word.lastReviewed + MASTERED_INTERVAL_DAYS * DAY };
+  }
+  return { ease: DEFAULT_EASE, interval: 0, repetitions: 0, lapses: 0, dueAt: word.status === 'new' ? 0 : word.lastReviewed };
+};
+
+export const nextSchedule = (schedule: CardSchedule, grade: ReviewGrade, now = Date.now()): CardSchedule => {
+  let { ease, interval, repetitions, lapses } = schedule;
+
+  switch (grade) {
+    case 'again':
+      if (repetitions > 0) lapses += 1;
+      return { ease: Math.max(MIN_EASE, ease - 0.2), interval: 0, repetitions: 0, lapses, dueAt: now + RELEARN_DELAY };
+    case 'hard':
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+      break;
+    case 'good':
+      interval = repetitions === 0 ? 1 : repetitions === 1 ? 3 : Math.max(interval + 1, Math.round(interval * ease));
+      break;
+    case 'easy':
+      ease += 0.15;
+      interval = repetitions === 0 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+      break;
+  }
+
+  return { ease, interval, repetitions: repetitions + 1, lapses, dueAt: now + interval * DAY };
+};
+
+// Applies a graded answer: new schedule, review log entry and the derived status
+export const reviewWord = (word: VocabWord, grade: ReviewGrade, now = Date.now()): VocabWord => {
+  const schedule = nextSchedule(scheduleOf(word), grade, now);
+  return {
+    ...word,
+    schedule,
+    reviewLog: [...(word.reviewLog || []), { reviewedAt: now, grade, interval: schedule.interval }].slice(-MAX_LOG_ENTRIES),
+    status: schedule.interval >= MASTERED_INTERVAL_DAYS ? 'mastered' : 'reviewing',
+    lastReviewed: now
+  };
+};
+
+// Short label for the interval a grade would give, e.g. "10m", "3d", "2mo"
+export const describeInterval = (schedule: CardSchedule): string => {
+  if (schedule.interval === 0) return `${Math.round(RELEARN_DELAY / 60000)}m`;
+  if (schedule.interval < 30) return `${schedule.interval}d`;
+  if (schedule.interval < 365) return `${Math.round(schedule.interval / 30)}mo`;
+  return `${(schedule.interval / 365).toFixed(1)}y`;
+};
+
+// Everything due by the end of today, most overdue first
+export const getDueWords = (words: VocabWord[], now = Date.now()): VocabWord[] => {
+  const cutoff = endOfDay(now);
+  return words
+    .filter(w => scheduleOf(w).dueAt <= cutoff)
+    .sort((a, b) => scheduleOf(a).dueAt - scheduleOf(b).dueAt);
+};
+
+// Reviews due on each of the next `days` days; today's count includes overdue cards
+export const forecastReviews = (words: VocabWord[], days = 7, now = Date.now()): { date: number; count: number }[] => {
+  const today = endOfDay(now);
+  const counts = Array.from({ length: days }, (_, i) => ({ date: today + i * DAY, count: 0 }));
+  words.forEach(w => {
+    const offset = Math.max(0, Math.ceil((scheduleOf(w).dueAt - today) / DAY));
+    if (offset < days) counts[offset].count += 1;
+  });
+  return counts;
+};
@@ -0,0 +1,324 @@
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { emptyProfileData, pickProfileData, ProfileData, ProfileIndex } from './profiles';
+import { migrateProfileData, STORAGE_VERSION, validateProfileList } from './migrations';
+
+// IndexedDB layout: device settings and the profile list in `device`, each profile's
+// small fields in `profiles`, and its growing collections (messages, archived sessions,
+// words, translations, reports) one record per item, keyed by [profileId, id]. Writes are debounced and only
+// touch records whose objects changed since the last write, so a new chat message costs
+// one small put instead of re-serializing everything.
+
+const DB_NAME = 'echo';
+const DB_VERSION = 2;
+const FLUSH_DELAY = 300;
+
+const DEVICE_STORE = 'device';
+const PROFILE_STORE = 'profiles';
+
+interface CollectionRecord {
+  profileId: string;
+  id: string;
+  // Keeps the list's order, which ids alone don't
+  order: number;
+  value: unknown;
+}
+
+interface Collection {
+  store: string;
+  read: (data: ProfileData) => Array<{ id: string; value: object }>;
+  // Stored values are unvalidated until the loaded data goes through migration
+  write: (values: unknown[]) => Partial<Record<keyof ProfileData, unknown>>;
+}
+
+const COLLECTIONS: Collection[] = [
+  {
+    store: 'messages',
+    read: (data) => data.chatHistory.map(m => ({ id: m.id, value: m })),
+    write: (values) => ({ chatHistory: values })
+  },
+  {
+    store: 'sessions',
+    read: (data) => data.sessions.map(s => ({ id: s.id, value: s })),
+    write: (values) => ({ sessions: values })
+  },
+  {
+    store: 'vocab',
+    read: (data) => data.vocabulary.map(w => ({ id: w.id, value: w })),
+    write: (values) => ({ vocabulary: values })
+  },
+  {
+    store: 'translations',
+    read: (data) => data.translations.map(t => ({ id: t.id, value: t })),
+    write: (values) => ({ translations: values })
+  },
+  {
+    store: 'reports',
+    read: (data) => data.reports.map(r => ({ id: String(r.generatedAt), value: r })),
+    write: (values) => ({ reports: values })
+  }
+];
+
+const COLLECTION_FIELDS: (keyof ProfileData)[] = ['chatHistory', 'sessions', 'vocabulary', 'translations', 'reports'];
+
+// --- IndexedDB helpers ---
+
+const request = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    // Each database version only adds stores, so creating whatever is missing upgrades from any of them
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      const missing = (store: string) => !db.objectStoreNames.contains(store);
+      if (missing(DEVICE_STORE)) db.createObjectStore(DEVICE_STORE);
+      if (missing(PROFILE_STORE)) db.createObjectStore(PROFILE_STORE);
+      COLLECTIONS.filter(c => missing(c.store)).forEach(c => db.createObjectStore(c.store, { keyPath: ['profileId', 'id'] }));
+    };
+    dbPromise = request(open);
+  }
+  return dbPromise;
+};
+
+// Every record of one profile in a collection store (arrays sort after strings in IndexedDB)
+const profileRange = (profileId: string) => IDBKeyRange.bound([profileId], [profileId, []]);
+
+// --- Change tracking ---
+
+// What was last written for each profile: the object behind every record, so unchanged
+// items (same reference in the immutable store state) are skipped
+interface Snapshot {
+  fields: Partial<ProfileData>;
+  collections: Record<string, Map<string, { value: object; order: number }>>;
+  nextOrder: number;
+}
+
+const snapshots = new Map<string, Snapshot>();
+
+const emptySnapshot = (): Snapshot => ({
+  fields: {},
+  collections: Object.fromEntries(COLLECTIONS.map(c => [c.store, new Map()])),
+  nextOrder: 0
+});
+
+// --- Profile data ---
+
+export const loadProfileData = async (id: string): Promise<ProfileData> => {
+  const db = await openDb();
+  const tx = db.transaction([PROFILE_STORE, ...COLLECTIONS.map(c => c.store)], 'readonly');
+  const stored = await request(tx.objectStore(PROFILE_STORE).get(id)) as { version: number; data: Partial<ProfileData> } | undefined;
+  if (!stored) return emptyProfileData();
+
+  const raw: Record<string, unknown> = { ...stored.data };
+  const records: Record<string, CollectionRecord[]> = {};
+  for (const collection of COLLECTIONS) {
+    records[collection.store] = (await request(tx.objectStore(collection.store).getAll(profileRange(id))) as CollectionRecord[])
+      .sort((a, b) => a.order - b.order);
+    Object.assign(raw, collection.write(records[collection.store].map(r => r.value)));
+  }
+
+  const data = migrateProfileData(raw, stored.version);
+
+  // Without a snapshot, data that needed migrating is rewritten in full on the next save
+  snapshots.delete(id);
+  if (stored.version === STORAGE_VERSION) {
+    const snapshot = emptySnapshot();
+    snapshot.fields = pickProfileData(data);
+    COLLECTIONS.forEach(collection => {
+      const orders = new Map(records[collection.store].map(r => [r.id, r.order]));
+      collection.read(data).forEach(({ id: itemId, value }) => {
+        const order = orders.get(itemId) ?? snapshot.nextOrder;
+        snapshot.collections[collection.store].set(itemId, { value, order });
+        snapshot.nextOrder = Math.max(snapshot.nextOrder, order + 1);
+      });
+    });
+    snapshots.set(id, snapshot);
+  }
+  return data;
+};
+
+export const deleteProfileData = async (id: string) => {
+  snapshots.delete(id);
+  const db = await openDb();
+  const tx = db.transaction([PROFILE_STORE, ...COLLECTIONS.map(c => c.store)], 'readwrite');
+  tx.objectStore(PROFILE_STORE).delete(id);
+  COLLECTIONS.forEach(c => tx.objectStore(c.store).delete(profileRange(id)));
+  await transactionDone(tx);
+};
+
+// Queues the puts and deletes that bring one profile's records up to date with `data`.
+// Without a snapshot the profile's records are cleared and written in full.
+const writeProfileChanges = (tx: IDBTransaction, profileId: string, data: ProfileData) => {
+  let snapshot = snapshots.get(profileId);
+  if (!snapshot) {
+    snapshot = emptySnapshot();
+    COLLECTIONS.forEach(c => tx.objectStore(c.store).delete(profileRange(profileId)));
+  }
+
+  const fields = pickProfileData(data) as unknown as Record<string, unknown>;
+  COLLECTION_FIELDS.forEach(field => delete fields[field]);
+  const fieldsChanged = Object.keys(fields).some(key => fields[key] !== (snapshot.fields as Record<string, unknown>)[key]);
+  if (fieldsChanged) tx.objectStore(PROFILE_STORE).put({ version: STORAGE_VERSION, data: fields }, profileId);
+
+  COLLECTIONS.forEach(collection => {
+    const previous = snapshot.collections[collection.store];
+    const current = new Map<string, { value: object; order: number }>();
+    const store = tx.objectStore(collection.store);
+
+    collection.read(data).forEach(({ id, value }) => {
+      const before = previous.get(id);
+      const order = before ? before.order : snapshot.nextOrder++;
+      if (!before || before.value !== value) {
+        const record: CollectionRecord = { profileId, id, order, value };
+        store.put(record);
+      }
+      current.set(id, { value, order });
+    });
+    previous.forEach((_, id) => {
+      if (!current.has(id)) store.delete([profileId, id]);
+    });
+    snapshot.collections[collection.store] = current;
+  });
+
+  snapshot.fields = pickProfileData(data);
+  snapshots.set(profileId, snapshot);
+};
+
+// --- One-time move out of localStorage ---
+
+// Earlier versions kept everything in localStorage: the main key plus one key per profile.
+// Returns true when there was something to move.
+const moveFromLocalStorage = async (name: string): Promise<boolean> => {
+  const raw = localStorage.getItem(name);
+  if (raw === null) return false;
+
+  let stored: StorageValue<Record<string, unknown>>;
+  try {
+    stored = JSON.parse(raw);
+  } catch (e) {
+    console.error(`Stored data under ${name} is corrupt; keeping a copy and starting fresh`, e);
+    localStorage.setItem(`${name}:corrupt-${Date.now()}`, raw);
+    localStorage.removeItem(name);
+    return false;
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([DEVICE_STORE, PROFILE_STORE, ...COLLECTIONS.map(c => c.store)], 'readwrite');
+  const profileKeys: string[] = [];
+  const profiles = validateProfileList(stored.state?.profiles);
+
+  profiles.forEach(({ id }) => {
+    const key = `echo-profile:${id}`;
+    const profileRaw = localStorage.getItem(key);
+    if (profileRaw === null) return;
+    try {
+      const parsed = JSON.parse(profileRaw);
+      const data = 'state' in parsed && typeof parsed.version === 'number'
+        ? migrateProfileData(parsed.state, parsed.version)
+        : migrateProfileData(parsed, 0);
+      snapshots.delete(id);
+      writeProfileChanges(tx, id, data);
+      profileKeys.push(key);
+    } catch (e) {
+      console.error(`Could not move profile ${id} out of localStorage`, e);
+    }
+  });
+  // Unversioned single-learner state is kept whole; persist's migrate adopts it as a profile
+  tx.objectStore(DEVICE_STORE).put(stored, name);
+
+  await transactionDone(tx);
+  [name, ...profileKeys].forEach(key => localStorage.removeItem(key));
+  return true;
+};
+
+// --- Persist storage ---
+
+// Storage for zustand's persist. Loading is asynchronous, so writes are ignored until the
+// first load has finished; otherwise the default state could overwrite saved data.
+export const createProfileStorage = <S extends ProfileData & ProfileIndex>(): PersistStorage<S, Promise<void>> => {
+  let loaded = false;
+  let pending: { name: string; value: StorageValue<S> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastDevice = '';
+
+  const flush = async () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!pending) return;
+    const { name, value } = pending;
+    pending = null;
+
+    const device = { ...value.state } as Record<string, unknown>;
+    (Object.keys(emptyProfileData()) as (keyof ProfileData)[]).forEach(key => delete device[key]);
+    const deviceJson = JSON.stringify({ ...value, state: device });
+
+    try {
+      const db = await openDb();
+      const tx = db.transaction([DEVICE_STORE, PROFILE_STORE, ...COLLECTIONS.map(c => c.store)], 'readwrite');
+      if (deviceJson !== lastDevice) tx.objectStore(DEVICE_STORE).put(JSON.parse(deviceJson), name);
+      const { activeProfileId } = value.state;
+      if (activeProfileId) writeProfileChanges(tx, activeProfileId, value.state);
+      await transactionDone(tx);
+      lastDevice = deviceJson;
+    } catch (e) {
+      // Forget what was written so the next save rewrites everything
+      console.error('Saving to IndexedDB failed', e);
+      snapshots.clear();
+      lastDevice = '';
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { flush(); });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+  }
+
+  return {
+    getItem: async (name) => {
+      try {
+        const db = await openDb();
+        let stored = await request(db.transaction(DEVICE_STORE).objectStore(DEVICE_STORE).get(name)) as StorageValue<S> | undefined;
+        if (!stored && await moveFromLocalStorage(name)) {
+          stored = await request(db.transaction(DEVICE_STORE).objectStore(DEVICE_STORE).get(name)) as StorageValue<S> | undefined;
+        }
+        if (!stored || typeof stored.state !== 'object' || stored.state === null) return null;
+
+        const { activeProfileId } = stored.state;
+        if (!activeProfileId) return stored;
+        return { ...stored, state: { ...stored.state, ...await loadProfileData(activeProfileId) } };
+      } catch (e) {
+        // Without IndexedDB the app still works, but nothing is saved this session
+        console.error('Could not load saved data', e);
+        return null;
+      } finally {
+        loaded = true;
+      }
+    },
+    setItem: async (name, value) => {
+      if (!loaded) return;
+      // Switching profiles: the previous profile's last changes go out first
+      if (pending && pending.value.state.activeProfileId !== value.state.activeProfileId) flush();
+      pending = { name, value };
+      if (!timer) timer = setTimeout(flush, FLUSH_DELAY);
+    },
+    removeItem: async (name) => {
+      const db = await openDb();
+      const tx = db.transaction(DEVICE_STORE, 'readwrite');
+      tx.objectStore(DEVICE_STORE).delete(name);
+      await transactionDone(tx);
+    }
+  };
+};
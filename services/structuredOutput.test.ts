@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { arrayOf, objectOf, optional, repairJson, requestStructured, score, text, TutorServiceError } from './structuredOutput';
+
+describe('repairJson', () => {
+  it.each([
+    ['plain JSON', '{"a": 1}', { a: 1 }],
+    ['a json code fence', '```json\n{"a": 1}\n```', { a: 1 }],
+    ['a bare code fence', '```\n[1, 2]\n```', [1, 2]],
+    ['prose around the JSON', 'Sure! Here it is:\n{"a": 1}\nHope that helps.', { a: 1 }],
+    ['a trailing comma in an object', '{"a": 1, "b": 2,}', { a: 1, b: 2 }],
+    ['a trailing comma in an array', '{"a": [1, 2, ]}', { a: [1, 2] }],
+    ['trailing commas inside a fence', '```json\n{"words": [{"w": "x",},],}\n```', { words: [{ w: 'x' }] }]
+  ])('repairs %s', (_, raw, expected) => {
+    expect(repairJson(raw)).toEqual(expected);
+  });
+
+  it.each([
+    ['a truncated array', '{"words": [{"w": "x"}, {"w": "y"'],
+    ['a truncated top-level array', '[1, 2, 3'],
+    ['prose only', 'Sorry, I cannot help with that.']
+  ])('throws on %s', (_, raw) => {
+    expect(() => repairJson(raw)).toThrow();
+  });
+});
+
+describe('requestStructured', () => {
+  const schema = objectOf<{ word: string; score: number }>({ word: text(), score: score() });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the validated value on the first good answer', async () => {
+    const request = vi.fn(async () => '```json\n{"word": " chai ", "score": "72.4"}\n```');
+    await expect(requestStructured('Test', schema, request)).resolves.toEqual({ word: 'chai', score: 72 });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledWith('');
+  });
+
+  it('retries with the validation problems spelled out', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce('{"word": "", "score": 50}')
+      .mockResolvedValueOnce('{"word": "chai", "score": 50}');
+
+    await expect(requestStructured('Test', schema, request)).resolves.toEqual({ word: 'chai', score: 50 });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[1][0]).toContain('response.word must be a non-empty string');
+  });
+
+  it('retries after an answer that is not JSON', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce('{"word": "chai", "score": 5')
+      .mockResolvedValueOnce('{"word": "chai", "score": 5}');
+
+    await expect(requestStructured('Test', schema, request)).resolves.toEqual({ word: 'chai', score: 5 });
+    expect(request.mock.calls[1][0]).toContain('the response was not valid JSON');
+  });
+
+  it.each([
+    ['invalid', 'a response that fails validation', '{"word": "chai"}'],
+    ['malformed', 'a response that is not JSON', 'not json'],
+    ['malformed', 'an empty response', '  ']
+  ])('throws %s after maxAttempts of %s', async (code, _, raw) => {
+    const request = vi.fn(async () => raw);
+    const error = await requestStructured('Test', schema, request, 3).catch(e => e);
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(TutorServiceError);
+    expect(error.code).toBe(code);
+    expect(error.issues.length).toBeGreaterThan(0);
+  });
+
+  it('reports the last failure when attempts fail differently', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce('not json')
+      .mockResolvedValueOnce('{"word": "chai"}');
+
+    const error = await requestStructured('Test', schema, request).catch(e => e);
+    expect(error.code).toBe('invalid');
+    expect(error.issues).toContain('response.score must be a number from 0 to 100');
+  });
+
+  it('throws a network error without retrying when the request itself fails', async () => {
+    const request = vi.fn(async () => { throw new Error('offline'); });
+    const error = await requestStructured('Test', schema, request).catch(e => e);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(TutorServiceError);
+    expect(error.code).toBe('network');
+  });
+
+  it('drops unusable list items but fails when too few remain', async () => {
+    const list = arrayOf(optional(text()), { min: 2 });
+    await expect(requestStructured('Test', list, async () => '["a", "", "b"]')).resolves.toEqual(['a', 'b']);
+    await expect(requestStructured('Test', list, async () => '["a", ""]', 1)).rejects.toMatchObject({ code: 'invalid' });
+  });
+});
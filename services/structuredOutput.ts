@@ -0,0 +1,206 @@
+// Shared layer for every JSON response we get back from a model:
+// parse (with light repair), validate against the expected shape, re-ask once with the
+// problems spelled out, and surface a typed error the screens can show.
+// The schemas are also used to check data read back from storage (see migrations.ts).
+
+// --- Errors ---
+
+export type TutorErrorCode = 'network' | 'malformed' | 'invalid';
+
+export class TutorServiceError extends Error {
+  code: TutorErrorCode;
+  issues: string[];
+
+  constructor(code: TutorErrorCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'TutorServiceError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+// User-facing text for any error thrown by the tutor services
+export const describeTutorError = (error: unknown): string => {
+  if (error instanceof TutorServiceError) {
+    switch (error.code) {
+      case 'network':
+        return "Couldn't reach the tutor service. Check your connection and try again.";
+      case 'malformed':
+      case 'invalid':
+        return "The tutor sent back an answer we couldn't read. Please try again.";
+    }
+  }
+  return 'Something went wrong. Please try again.';
+};
+
+// --- Validation ---
+
+// A schema checks an unknown value, records problems in `issues` and returns the
+// (possibly normalised) value, or undefined when it cannot be used.
+export type Schema<T> = (value: unknown, path: string, issues: string[]) => T | undefined;
+
+export const text = (): Schema<string> => (value, path, issues) => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  issues.push(`${path} must be a non-empty string`);
+  return undefined;
+};
+
+// Any string, including an empty one
+export const string = (): Schema<string> => (value, path, issues) => {
+  if (typeof value === 'string') return value;
+  issues.push(`${path} must be a string`);
+  return undefined;
+};
+
+export const number = (): Schema<number> => (value, path, issues) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  issues.push(`${path} must be a number`);
+  return undefined;
+};
+
+export const boolean = (): Schema<boolean> => (value, path, issues) => {
+  if (typeof value === 'boolean') return value;
+  issues.push(`${path} must be true or false`);
+  return undefined;
+};
+
+// Integer score, clamped to 0-100. Numeric strings ("72") are accepted.
+export const score = (): Schema<number> => (value, path, issues) => {
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num === 'number' && Number.isFinite(num)) return Math.max(0, Math.min(100, Math.round(num)));
+  issues.push(`${path} must be a number from 0 to 100`);
+  return undefined;
+};
+
+// One of a fixed set of strings, matched case-insensitively
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, path, issues) => {
+  if (typeof value === 'string') {
+    const match = values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+  }
+  issues.push(`${path} must be one of ${values.join(', ')}`);
+  return undefined;
+};
+
+export const arrayOf = <T>(item: Schema<T>, { min = 0 } = {}): Schema<T[]> => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return undefined;
+  }
+  const items: T[] = [];
+  value.forEach((entry, index) => {
+    const parsed = item(entry, `${path}[${index}]`, issues);
+    if (parsed !== undefined) items.push(parsed);
+  });
+  if (items.length < min) {
+    issues.push(`${path} must contain at least ${min} valid item(s)`);
+    return undefined;
+  }
+  return items;
+};
+
+export const objectOf = <T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+  const source = value as Record<string, unknown>;
+  const result = {} as T;
+  const before = issues.length;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const parsed = shape[key](source[key], `${path}.${key}`, issues);
+    if (parsed !== undefined) result[key] = parsed;
+  }
+  return issues.length === before ? result : undefined;
+};
+
+// Missing or unusable values are dropped silently instead of failing the whole response
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) => {
+  if (value === null || value === undefined) return undefined;
+  return schema(value, path, []);
+};
+
+// Falls back to a default instead of failing when the value is missing or unusable
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (value, path) => {
+  const parsed = schema(value, path, []);
+  return parsed === undefined ? fallback : parsed;
+};
+
+// Empty `issues` means `value` is usable
+export const validate = <T>(schema: Schema<T>, value: unknown): { value: T | undefined; issues: string[] } => {
+  const issues: string[] = [];
+  const result = schema(value, 'response', issues);
+  if (result === undefined && issues.length === 0) issues.push('response is missing');
+  return { value: result, issues };
+};
+
+// --- Parsing ---
+
+// Parses model output as JSON, repairing the common quirks: markdown fences,
+// prose around the JSON, and trailing commas. Throws if it still isn't JSON.
+export const repairJson = (raw: string): unknown => {
+  let cleaned = raw.replace(/```(?:json)?\n?|```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    const first = cleaned.search(/[[{]/);
+    const last = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (first >= 0 && last > first) cleaned = cleaned.slice(first, last + 1);
+    cleaned = cleaned.replace(/,\s*([}\]])/g, '$1');
+    return JSON.parse(cleaned);
+  }
+};
+
+// --- Request Loop ---
+
+const retryNote = (issues: string[]) => `
+
+IMPORTANT: Your previous answer was rejected because: ${issues.slice(0, 5).join('; ')}.
+Reply again with ONLY valid JSON that matches the schema exactly.`;
+
+// Runs `request` until its output parses and validates, up to maxAttempts times.
+// On a retry, `request` receives a note describing what was wrong to append to its prompt.
+export const requestStructured = async <T>(
+  label: string,
+  schema: Schema<T>,
+  request: (retryHint: string) => Promise<string | undefined>,
+  maxAttempts = 2
+): Promise<T> => {
+  let issues: string[] = [];
+  let code: TutorErrorCode = 'malformed';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let raw: string | undefined;
+    try {
+      raw = await request(attempt > 1 ? retryNote(issues) : '');
+    } catch (error) {
+      console.error(`${label} request failed`, error);
+      throw new TutorServiceError('network', `${label} request failed`);
+    }
+
+    if (!raw || !raw.trim()) {
+      code = 'malformed';
+      issues = ['the response was empty'];
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = repairJson(raw);
+    } catch (e) {
+      console.warn(`${label}: response is not JSON`, raw);
+      code = 'malformed';
+      issues = ['the response was not valid JSON'];
+      continue;
+    }
+
+    const result = validate(schema, parsed);
+    if (result.issues.length === 0) return result.value as T;
+
+    console.warn(`${label}: response failed validation`, result.issues);
+    code = 'invalid';
+    issues = result.issues;
+  }
+
+  throw new TutorServiceError(code, `${label} returned an unusable response`, issues);
+};
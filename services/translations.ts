@@ -0,0 +1,59 @@
+import { Translation, VocabWord } from '../types';
+import { findLanguage } from './languages';
+
+// Helpers for browsing saved translations and turning them into vocabulary cards
+
+export interface TranslationGroup {
+  label: string;
+  items: Translation[];
+}
+
+const dayLabel = (timestamp: number): string => {
+  const day = new Date(timestamp).toDateString();
+  const today = new Date();
+  if (day === today.toDateString()) return 'Today';
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+  if (day === yesterday.toDateString()) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// Newest first, one group per calendar day
+export const groupTranslationsByDay = (translations: Translation[]): TranslationGroup[] => {
+  const groups: TranslationGroup[] = [];
+  [...translations]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(t => {
+      const label = dayLabel(t.timestamp);
+      const group = groups[groups.length - 1];
+      if (group && group.label === label) group.items.push(t);
+      else groups.push({ label, items: [t] });
+    });
+  return groups;
+};
+
+// Case-insensitive match against the original and both English versions
+export const matchesTranslationQuery = (t: Translation, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [t.original, t.simple, t.enhanced].some(field => field.toLowerCase().includes(q));
+};
+
+// The card's headword, also used to tell whether it is already in the deck
+export const translationVocabWord = (t: Translation): string => t.simple.trim().replace(/[.!?]+$/, '');
+
+// The simple English phrase becomes the card; the polished version and context are its examples
+export const translationToVocab = (t: Translation): VocabWord => {
+  const language = findLanguage(t.sourceLanguage);
+  return {
+    id: `translation-${t.id}`,
+    word: translationVocabWord(t),
+    pronunciation: '',
+    partOfSpeech: 'phrase',
+    definition: `English for "${t.original}"${language ? ` (${language.name})` : ''}.`,
+    example: t.enhanced,
+    indianContextExample: t.context,
+    status: 'new',
+    lastReviewed: Date.now()
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { VocabWord } from '../types';
+import { exportVocabularyCsv, importVocabulary, parseDelimited } from './vocabTransfer';
+
+const deckWord = (word: string): VocabWord => ({
+  id: `w-${word}`, word, pronunciation: '', partOfSpeech: '', definition: 'x', example: '', indianContextExample: '',
+  status: 'new', lastReviewed: 0
+});
+
+describe('parseDelimited', () => {
+  it.each([
+    ['commas', 'a,b\nc,d', [['a', 'b'], ['c', 'd']]],
+    ['tabs', 'a\tb, still b\nc\td', [['a', 'b, still b'], ['c', 'd']]],
+    ['semicolons', 'a;b,c;d\ne;f', [['a', 'b,c', 'd'], ['e', 'f']]],
+    ['a quoted delimiter', '"crowded, busy",full\nx,y', [['crowded, busy', 'full'], ['x', 'y']]],
+    ['an escaped quote', '"say ""hi""",greeting', [['say "hi"', 'greeting']]],
+    ['a quoted newline', '"line one\nline two",b', [['line one\nline two', 'b']]],
+    ['CRLF line endings', 'a,b\r\nc,d\r\n', [['a', 'b'], ['c', 'd']]],
+    ['blank lines', 'a,b\n\n ,\nc,d', [['a', 'b'], ['c', 'd']]],
+    ['a last line without a newline', 'a,b\nc,', [['a', 'b'], ['c', '']]]
+  ])('splits %s', (_, text, expected) => {
+    expect(parseDelimited(text)).toEqual(expected);
+  });
+});
+
+describe('importVocabulary', () => {
+  it('maps columns by header aliases in any order', () => {
+    const { words, errors } = importVocabulary('Meaning,Term,IPA,POS\nFull of people,crowded,KROW-did,adjective', []);
+    expect(errors).toEqual([]);
+    expect(words).toHaveLength(1);
+    expect(words[0]).toMatchObject({ word: 'crowded', definition: 'Full of people', pronunciation: 'KROW-did', partOfSpeech: 'adjective', status: 'new' });
+  });
+
+  it('reads headerless files positionally', () => {
+    const { words } = importVocabulary('deadline\tThe time to finish by\tThe deadline is Friday.', []);
+    expect(words[0]).toMatchObject({ word: 'deadline', definition: 'The time to finish by', example: 'The deadline is Friday.' });
+  });
+
+  it('strips a byte order mark before looking for the header', () => {
+    const { words } = importVocabulary('\uFEFFword,definition\ncrowded,Full of people', []);
+    expect(words.map(w => w.word)).toEqual(['crowded']);
+  });
+
+  it('reports rows missing the word or definition with their line number', () => {
+    const { words, errors } = importVocabulary('word,definition\n,Full of people\ncrowded,\nnearby,Not far away', []);
+    expect(words.map(w => w.word)).toEqual(['nearby']);
+    expect(errors).toEqual(['Row 2: missing word or definition.', 'Row 3: missing word or definition.']);
+  });
+
+  it('skips words already in the deck or repeated in the file, ignoring case and spaces', () => {
+    const { words, duplicates } = importVocabulary('word,definition\n Crowded ,Full\nnearby,Close\nNEARBY,Close again', [deckWord('crowded')]);
+    expect(words.map(w => w.word)).toEqual(['nearby']);
+    expect(duplicates).toEqual(['Crowded', 'NEARBY']);
+  });
+
+  it('reports an empty file', () => {
+    expect(importVocabulary('\n\n', []).errors).toEqual(['The file is empty.']);
+  });
+
+  it('reads back its own CSV export', () => {
+    const word = { ...deckWord('say "hi", friend'), definition: 'A greeting,\nwith a newline' };
+    const { words } = importVocabulary(exportVocabularyCsv([word]), []);
+    expect(words[0]).toMatchObject({ word: word.word, definition: word.definition });
+  });
+});
@@ -0,0 +1,168 @@
+import { VocabWord } from '../types';
+
+// Moving vocabulary in and out of the app: CSV/TSV import (e.g. from a teacher's
+// spreadsheet), CSV export, and an Anki-importable text export.
+
+type VocabField = 'word' | 'definition' | 'example' | 'pronunciation' | 'partOfSpeech' | 'indianContextExample';
+
+// Column order assumed when a file has no header row
+const DEFAULT_COLUMNS: VocabField[] = ['word', 'definition', 'example', 'pronunciation', 'partOfSpeech', 'indianContextExample'];
+
+// Accepted header names per field, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<VocabField, string[]> = {
+  word: ['word', 'term', 'front', 'vocabulary'],
+  definition: ['definition', 'meaning', 'back', 'translation'],
+  example: ['example', 'sentence', 'usage'],
+  pronunciation: ['pronunciation', 'ipa', 'phonetic'],
+  partOfSpeech: ['partofspeech', 'pos', 'type', 'wordclass'],
+  indianContextExample: ['indiancontextexample', 'indiancontext', 'localcontext', 'context']
+};
+
+// Words are the same card regardless of case or surrounding spaces
+export const vocabKey = (word: string) => word.trim().toLowerCase();
+
+// --- Import ---
+
+// Splits CSV/TSV text into rows, honouring double-quoted fields with embedded
+// delimiters, newlines and "" escapes
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z]/g, '');
+
+const headerField = (cell: string): VocabField | undefined => {
+  const name = normalizeHeader(cell);
+  return (Object.keys(HEADER_ALIASES) as VocabField[]).find(field => HEADER_ALIASES[field].includes(name));
+};
+
+export interface VocabImportResult {
+  words: VocabWord[];
+  duplicates: string[]; // already in the deck, or repeated within the file
+  errors: string[];
+}
+
+export const importVocabulary = (text: string, existing: VocabWord[]): VocabImportResult => {
+  const rows = parseDelimited(text.replace(/^\uFEFF/, ''));
+  const result: VocabImportResult = { words: [], duplicates: [], errors: [] };
+  if (rows.length === 0) {
+    result.errors.push('The file is empty.');
+    return result;
+  }
+
+  // A first row naming a "word" column is a header; otherwise columns are positional
+  const headerFields = rows[0].map(headerField);
+  const hasHeader = headerFields.includes('word');
+  const columns = hasHeader ? headerFields : DEFAULT_COLUMNS;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const seen = new Set(existing.map(w => vocabKey(w.word)));
+  const now = Date.now();
+
+  dataRows.forEach((cells, index) => {
+    const lineNumber = index + (hasHeader ? 2 : 1);
+    const values: Partial<Record<VocabField, string>> = {};
+    cells.forEach((cell, column) => {
+      const field = columns[column];
+      if (field) values[field] = cell.trim();
+    });
+
+    if (!values.word || !values.definition) {
+      result.errors.push(`Row ${lineNumber}: missing word or definition.`);
+      return;
+    }
+    if (seen.has(vocabKey(values.word))) {
+      result.duplicates.push(values.word);
+      return;
+    }
+    seen.add(vocabKey(values.word));
+
+    result.words.push({
+      id: `import-${now}-${index}`,
+      word: values.word,
+      definition: values.definition,
+      example: values.example || '',
+      pronunciation: values.pronunciation || '',
+      partOfSpeech: values.partOfSpeech || '',
+      indianContextExample: values.indianContextExample || '',
+      status: 'new',
+      lastReviewed: now
+    });
+  });
+
+  return result;
+};
+
+// --- Export ---
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportVocabularyCsv = (words: VocabWord[]): string => {
+  const header = ['word', 'definition', 'example', 'pronunciation', 'partOfSpeech', 'indianContextExample', 'status'];
+  const rows = words.map(w => [w.word, w.definition, w.example, w.pronunciation, w.partOfSpeech, w.indianContextExample, w.status]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+// Anki "Import File" text format: tab-separated with file headers, so Anki picks the
+// separator and field names up automatically. Map the fields onto a note type with
+// Front/Back (the first two) plus extra fields as needed.
+export const exportVocabularyAnki = (words: VocabWord[]): string => {
+  const headers = [
+    '#separator:tab',
+    '#html:true',
+    '#columns:Word\tDefinition\tPronunciation\tPart of speech\tExample\tIndian context\tTags',
+    '#tags column:7'
+  ];
+  const rows = words.map(w => [
+    escapeHtml(w.word),
+    escapeHtml(w.definition),
+    escapeHtml(w.pronunciation ? `/${w.pronunciation}/` : ''),
+    escapeHtml(w.partOfSpeech),
+    escapeHtml(w.example),
+    escapeHtml(w.indianContextExample),
+    `echo echo::${w.status}`
+  ].join('\t'));
+  return [...headers, ...rows].join('\n');
+};
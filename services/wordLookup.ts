@@ -0,0 +1,64 @@
+import { CEFRLevel, VocabWord } from '../types';
+import { enrichWord } from './geminiService';
+import { vocabKey } from './vocabTransfer';
+
+// Tap-to-define: splitting text into tappable words and caching lookups, so a word
+// tapped twice (or used by the tutor again) opens instantly.
+
+export interface TextToken {
+  text: string;
+  isWord: boolean;
+  start: number;
+}
+
+// Words keep inner apostrophes and hyphens ("don't", "well-known")
+const WORD_PATTERN = /[A-Za-z]+(?:['’-][A-Za-z]+)*/g;
+
+export const tokenizeWords = (text: string): TextToken[] => {
+  const tokens: TextToken[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > cursor) tokens.push({ text: text.slice(cursor, start), isWord: false, start: cursor });
+    tokens.push({ text: match[0], isWord: true, start });
+    cursor = start + match[0].length;
+  }
+  if (cursor < text.length) tokens.push({ text: text.slice(cursor), isWord: false, start: cursor });
+  return tokens;
+};
+
+// The sentence around `offset`, given to the lookup so it explains the meaning used there
+export const sentenceAt = (text: string, offset: number): string => {
+  for (const match of text.matchAll(/[^.!?]+[.!?]*/g)) {
+    const start = match.index ?? 0;
+    if (offset >= start && offset < start + match[0].length) return match[0].trim();
+  }
+  return text.trim();
+};
+
+// Lookups per level and word: pending ones are shared, finished ones are kept so
+// the popover can show them straight away. Failed lookups are dropped so the next tap retries.
+const pending = new Map<string, Promise<VocabWord>>();
+const resolved = new Map<string, VocabWord>();
+
+const cacheKey = (word: string, level: CEFRLevel) => `${level}:${vocabKey(word)}`;
+
+export const getCachedLookup = (word: string, level: CEFRLevel): VocabWord | undefined =>
+  resolved.get(cacheKey(word, level));
+
+export const lookupWord = (word: string, sentence: string, level: CEFRLevel): Promise<VocabWord> => {
+  const key = cacheKey(word, level);
+  const done = resolved.get(key);
+  if (done) return Promise.resolve(done);
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const lookup = enrichWord(word, sentence, level)
+    .then(result => {
+      resolved.set(key, result);
+      return result;
+    })
+    .finally(() => pending.delete(key));
+  pending.set(key, lookup);
+  return lookup;
+};
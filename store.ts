@@ -1,6 +1,18 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import { UserProfile, CEFRLevel, ChatMessage, VocabWord, Translation, ScreenName, SkillStats, DetailedReport } from './types';
+import { persist } from 'zustand/middleware';
+import { UserProfile, CEFRLevel, ChatMessage, VocabWord, Translation, ScreenName, SkillStats, DetailedReport, ReviewGrade, VocabBatch, ActiveSession, ChatSessionRecord, LevelChange, LevelChangeReason } from './types';
+import { PRONUNCIATION_HISTORY_SIZE } from './services/pronunciation';
+import { reviewWord } from './services/srs';
+import { vocabKey } from './services/vocabTransfer';
+import { getTodayString, MAX_BATCH_HISTORY } from './services/dailyVocab';
+import { buildSessionRecord, newActiveSession } from './services/sessions';
+import { harvestVocab } from './services/geminiService';
+import { insertReport } from './services/reports';
+import { PlacementResult } from './services/placement';
+import { DEFAULT_STATS, emptyProfileData, pickProfileData, ProfileData, ProfileSummary } from './services/profiles';
+import { mergeProfileData, RestoreMode } from './services/backup';
+import { createProfileStorage, deleteProfileData, loadProfileData } from './services/storage';
+import { migrateDeviceState, STORAGE_VERSION, validateProfileList } from './services/migrations';
 
 interface AppState {
   // UI State
@@ -13,34 +25,76 @@ interface AppState {
   
   // User State
   user: UserProfile | null;
-  login: (name: string, avatar: string) => void;
+  // Learner profiles on this device; each one's data is persisted separately
+  profiles: ProfileSummary[];
+  activeProfileId: string | null;
+  login: (name: string, avatar: string, details?: Pick<UserProfile, 'nativeLanguage' | 'goals'>) => void;
+  switchProfile: (id: string) => Promise<void>;
   logout: () => void;
+  deleteProfile: (id: string) => void;
+  // Loads a backup into the active profile, replacing or merging with its data
+  restoreBackup: (data: ProfileData, mode: RestoreMode) => void;
   checkSession: () => void;
 
+  // Working level changes, oldest first, and when the learner last turned a suggested change down
+  levelHistory: LevelChange[];
+  levelPromptDeclinedAt: number;
+  changeLevel: (level: CEFRLevel, reason: LevelChangeReason) => void;
+  declineLevelChange: () => void;
+  // Sets the level and baseline skills from the placement test
+  completePlacement: (result: PlacementResult) => void;
+
   // Data State
   chatHistory: ChatMessage[];
   addMessage: (msg: ChatMessage) => void;
-  clearChat: () => void;
+  updateMessage: (id: string, patch: Partial<ChatMessage>) => void;
+
+  // Lessons: the running one owns chatHistory; finished ones are archived, most recent first
+  activeSession: ActiveSession | null;
+  sessions: ChatSessionRecord[];
+  startSession: (topic: string, lessonId?: string) => void;
+  endSession: () => void;
+  deleteSession: (id: string) => void;
 
   vocabulary: VocabWord[];
   addVocab: (words: VocabWord[]) => void;
-  updateVocabStatus: (id: string, status: VocabWord['status']) => void;
+  reviewVocab: (id: string, grade: ReviewGrade) => void;
+
+  // Words harvested from finished lessons, waiting for the learner to accept or dismiss
+  vocabProposals: VocabWord[];
+  addVocabProposals: (words: VocabWord[]) => void;
+  acceptVocabProposal: (id: string) => void;
+  dismissVocabProposal: (id: string) => void;
+
+  // Daily vocabulary batches, most recent first
+  vocabBatches: VocabBatch[];
+  addVocabBatch: (date: string, level: CEFRLevel, words: VocabWord[]) => void;
+  dailyBatchSize: number;
+  setDailyBatchSize: (size: number) => void;
 
   translations: Translation[];
   addTranslation: (t: Translation) => void;
   toggleFavoriteTranslation: (id: string) => void;
+  deleteTranslation: (id: string) => void;
 
   stats: SkillStats;
   updateStats: (newStats: Partial<SkillStats>) => void;
+  // Read-aloud scores, most recent first; stats.pronunciation is their average
+  pronunciationScores: number[];
+  recordPronunciationScore: (score: number) => void;
   
-  latestReport: DetailedReport | null;
-  setLatestReport: (report: DetailedReport) => void;
+  // Every progress report, oldest first; the last one is the current assessment
+  reports: DetailedReport[];
+  addReport: (report: DetailedReport) => void;
+
+  // Curriculum progress: lesson id -> completion timestamp
+  completedLessons: Record<string, number>;
+  completeLesson: (lessonId: string) => void;
 }
 
 // Helper for session expiration (7 days to avoid frequent logouts)
 const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000;
 
-const getTodayString = () => new Date().toISOString().split('T')[0];
 
 export const useStore = create<AppState>()(
   persist(
@@ -56,43 +110,83 @@ export const useStore = create<AppState>()(
       setVocabLoading: (loading) => set({ isVocabLoading: loading }),
 
       user: null,
-      login: (name, avatar) => {
-        // Simple login logic for new/returning users
-        // Note: In a real app, we would look up the user by ID. 
-        // Here, we treat every login on this device as the current user, 
-        // but we reset if the name is different or just initialize.
-        
+      profiles: [],
+      activeProfileId: null,
+
+      // Creates a new profile on this device and makes it the active one; new learners
+      // start with the placement test
+      login: (name, avatar, details = {}) => {
         const today = getTodayString();
-        
-        set({
+        const id = `profile-${Date.now()}`;
+
+        set((state) => ({
+          profiles: [...state.profiles, { id, name, avatar, createdAt: Date.now() }],
+          activeProfileId: id,
+          ...emptyProfileData(),
           user: {
             name,
             avatar,
             cefrLevel: CEFRLevel.A1,
+            nativeLanguage: details.nativeLanguage,
+            goals: details.goals,
             streak: 1, // Start at 1 for today
             lastLogin: Date.now(),
             lastLoginDate: today,
             wordsLearned: 0
           },
-          currentScreen: 'dashboard',
-          // Clear history for a "Fresh" session feel upon new login
-          chatHistory: [],
-          vocabulary: [], // Optional: Keep vocab if you want persistence, reset if you want "New User" feel
-          translations: [],
-          latestReport: null,
-          stats: { grammar: 20, vocabulary: 15, fluency: 10, pronunciation: 10 }
-        });
+          currentScreen: 'placement'
+        }));
+      },
+
+      switchProfile: async (id) => {
+        const data = await loadProfileData(id);
+        if (!data.user) return;
+        // Picking a profile counts as logging in: renew the session, then update the streak
+        set({ ...data, user: { ...data.user, lastLogin: Date.now() }, activeProfileId: id, currentScreen: 'dashboard' });
+        get().checkSession();
       },
 
-      logout: () => set({ 
-        user: null, 
-        currentScreen: 'login',
-        chatHistory: [], 
-        vocabulary: [],
-        translations: [],
-        latestReport: null
+      // The profile's data stays saved for next time
+      logout: () => set({
+        ...emptyProfileData(),
+        activeProfileId: null,
+        currentScreen: 'login'
       }),
 
+      deleteProfile: (id) => {
+        if (get().activeProfileId === id) get().logout();
+        deleteProfileData(id).catch(e => console.error('Could not delete profile data', e));
+        set((state) => ({ profiles: state.profiles.filter(p => p.id !== id) }));
+      },
+
+      restoreBackup: (data, mode) => {
+        const { user, activeProfileId } = get();
+        if (!user || !data.user) return;
+        const restored = mode === 'replace' ? data : mergeProfileData(pickProfileData(get()), data);
+        // The session stays with this device; name and avatar follow the backup on replace
+        set((state) => ({
+          ...restored,
+          user: { ...restored.user!, lastLogin: user.lastLogin, lastLoginDate: user.lastLoginDate },
+          profiles: state.profiles.map(p => p.id === activeProfileId ? { ...p, name: restored.user!.name, avatar: restored.user!.avatar } : p)
+        }));
+      },
+
+      levelHistory: [],
+      levelPromptDeclinedAt: 0,
+      changeLevel: (level, reason) => {
+        const { user } = get();
+        if (!user || user.cefrLevel === level) return;
+        set((state) => ({
+          user: { ...user, cefrLevel: level },
+          levelHistory: [...state.levelHistory, { from: user.cefrLevel, to: level, at: Date.now(), reason }]
+        }));
+      },
+      declineLevelChange: () => set({ levelPromptDeclinedAt: Date.now() }),
+      completePlacement: (result) => {
+        get().changeLevel(result.level, 'placement');
+        set((state) => ({ stats: { ...state.stats, ...result.stats }, currentScreen: 'dashboard' }));
+      },
+
       checkSession: () => {
         const { user, logout } = get();
         if (user) {
@@ -140,33 +234,127 @@ export const useStore = create<AppState>()(
 
       chatHistory: [],
       addMessage: (msg) => set((state) => ({ chatHistory: [...state.chatHistory, msg] })),
-      clearChat: () => set({ chatHistory: [] }),
+      updateMessage: (id, patch) => set((state) => ({
+        chatHistory: state.chatHistory.map(m => m.id === id ? { ...m, ...patch } : m)
+      })),
+
+      activeSession: null,
+      sessions: [],
+      startSession: (topic, lessonId) => {
+        get().endSession();
+        set({ activeSession: newActiveSession(topic, lessonId) });
+      },
+      // Archives the chat (if the learner took part) and clears it for the next lesson.
+      // Every archived lesson also proposes new words from the tutor's replies and the
+      // corrections; that runs in the background and the proposals show up on the dashboard.
+      endSession: () => {
+        const { activeSession, chatHistory, user, vocabulary, vocabProposals, activeProfileId } = get();
+        if (user && chatHistory.filter(m => m.role === 'user').length >= 2) {
+          const knownWords = [...vocabulary, ...vocabProposals].map(w => w.word);
+          harvestVocab(chatHistory, user.cefrLevel, knownWords)
+            // Drop the words if the learner switched profile meanwhile
+            .then(words => { if (get().activeProfileId === activeProfileId) get().addVocabProposals(words); })
+            .catch(error => console.error('Vocabulary harvest failed', error));
+        }
+
+        const record = buildSessionRecord(activeSession, chatHistory);
+        set((state) => ({
+          sessions: record ? [record, ...state.sessions] : state.sessions,
+          chatHistory: [],
+          activeSession: null
+        }));
+      },
+      deleteSession: (id) => set((state) => ({
+        sessions: state.sessions.filter(s => s.id !== id)
+      })),
 
       vocabulary: [],
       addVocab: (words) => set((state) => {
         // Prevent duplicates
-        const newWords = words.filter(nw => !state.vocabulary.some(ew => ew.word === nw.word));
+        const newWords = words.filter(nw => !state.vocabulary.some(ew => vocabKey(ew.word) === vocabKey(nw.word)));
         return { vocabulary: [...state.vocabulary, ...newWords] };
       }),
-      updateVocabStatus: (id, status) => set((state) => ({
-        vocabulary: state.vocabulary.map(w => w.id === id ? { ...w, status, lastReviewed: Date.now() } : w)
+      reviewVocab: (id, grade) => set((state) => ({
+        vocabulary: state.vocabulary.map(w => w.id === id ? reviewWord(w, grade) : w)
       })),
 
+      vocabProposals: [],
+      addVocabProposals: (words) => set((state) => {
+        const taken = new Set([...state.vocabulary, ...state.vocabProposals].map(w => vocabKey(w.word)));
+        return { vocabProposals: [...state.vocabProposals, ...words.filter(w => !taken.has(vocabKey(w.word)))] };
+      }),
+      acceptVocabProposal: (id) => {
+        const proposal = get().vocabProposals.find(w => w.id === id);
+        if (!proposal) return;
+        get().addVocab([{ ...proposal, lastReviewed: Date.now() }]);
+        set((state) => ({ vocabProposals: state.vocabProposals.filter(w => w.id !== id) }));
+      },
+      dismissVocabProposal: (id) => set((state) => ({
+        vocabProposals: state.vocabProposals.filter(w => w.id !== id)
+      })),
+
+      vocabBatches: [],
+      addVocabBatch: (date, level, words) => {
+        // Only words that made it past the deck's dedupe belong to the batch
+        const before = new Set(get().vocabulary.map(w => w.id));
+        get().addVocab(words);
+        const wordIds = get().vocabulary.filter(w => !before.has(w.id)).map(w => w.id);
+        set((state) => ({
+          vocabBatches: [{ date, level, wordIds }, ...state.vocabBatches.filter(b => b.date !== date)].slice(0, MAX_BATCH_HISTORY)
+        }));
+      },
+      dailyBatchSize: emptyProfileData().dailyBatchSize,
+      setDailyBatchSize: (size) => set({ dailyBatchSize: size }),
+
       translations: [],
       addTranslation: (t) => set((state) => ({ translations: [t, ...state.translations] })),
       toggleFavoriteTranslation: (id) => set((state) => ({
         translations: state.translations.map(t => t.id === id ? { ...t, isFavorite: !t.isFavorite } : t)
       })),
+      deleteTranslation: (id) => set((state) => ({
+        translations: state.translations.filter(t => t.id !== id)
+      })),
 
-      stats: { grammar: 20, vocabulary: 15, fluency: 10, pronunciation: 10 },
+      stats: DEFAULT_STATS,
       updateStats: (newStats) => set((state) => ({ stats: { ...state.stats, ...newStats } })),
+      pronunciationScores: [],
+      recordPronunciationScore: (score) => set((state) => {
+        const scores = [score, ...state.pronunciationScores].slice(0, PRONUNCIATION_HISTORY_SIZE);
+        const average = Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+        return { pronunciationScores: scores, stats: { ...state.stats, pronunciation: average } };
+      }),
       
-      latestReport: null,
-      setLatestReport: (report) => set({ latestReport: report }),
+      reports: [],
+      addReport: (report) => set((state) => ({ reports: insertReport(state.reports, report) })),
+
+      completedLessons: {},
+      completeLesson: (lessonId) => set((state) => ({
+        completedLessons: { ...state.completedLessons, [lessonId]: Date.now() }
+      })),
     }),
     {
       name: 'echo-storage',
-      storage: createJSONStorage(() => localStorage), 
+      storage: createProfileStorage<AppState>(),
+      version: STORAGE_VERSION,
+      migrate: (persisted, version) => migrateDeviceState(persisted, version) as Partial<AppState> as AppState,
+      // Only validated values replace the defaults; an active profile whose data is
+      // missing falls back to the login screen
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<AppState>;
+        const profiles = validateProfileList(stored.profiles);
+        const activeProfileId = profiles.some(p => p.id === stored.activeProfileId) && stored.user ? stored.activeProfileId! : null;
+        return {
+          ...current,
+          isDarkMode: typeof stored.isDarkMode === 'boolean' ? stored.isDarkMode : current.isDarkMode,
+          profiles,
+          // Learner data was validated as it was loaded
+          ...(activeProfileId && {
+            ...pickProfileData(stored as ProfileData),
+            activeProfileId,
+            currentScreen: stored.currentScreen || 'dashboard'
+          })
+        };
+      }
     }
   )
 );
\ No newline at end of file
@@ -1,4 +1,4 @@
-export type ScreenName = 'login' | 'dashboard' | 'practice' | 'vocabulary' | 'progress' | 'translator';
+export type ScreenName = 'login' | 'placement' | 'dashboard' | 'practice' | 'sessions' | 'pronunciation' | 'vocabulary' | 'progress' | 'translator';
 
 export enum CEFRLevel {
   A1 = 'A1',
@@ -13,22 +13,85 @@ export interface UserProfile {
   name: string;
   avatar: string;
   cefrLevel: CEFRLevel;
+  nativeLanguage?: string;
+  goals?: string[];
   streak: number;
   lastLogin: number; // timestamp for session expiry
   lastLoginDate: string; // YYYY-MM-DD for streak calculation
   wordsLearned: number;
 }
 
+export type LevelChangeReason = 'placement' | 'promotion' | 'demotion' | 'manual';
+
+export interface LevelChange {
+  from: CEFRLevel;
+  to: CEFRLevel;
+  at: number;
+  reason: LevelChangeReason;
+}
+
+export type CorrectionCategory =
+  | 'tense'
+  | 'agreement'
+  | 'article'
+  | 'preposition'
+  | 'word-choice'
+  | 'word-order'
+  | 'spelling'
+  | 'punctuation'
+  | 'other';
+
+export type CorrectionSeverity = 'minor' | 'moderate' | 'major';
+
+export interface Correction {
+  original: string;
+  corrected: string;
+  explanation: string;
+  category: CorrectionCategory;
+  severity: CorrectionSeverity;
+  // Character offsets of `original` in the user's message (end exclusive).
+  // Missing when the text could not be located in the message.
+  span?: { start: number; end: number };
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-  correction?: {
-    original: string;
-    corrected: string;
-    explanation: string;
-  };
+  corrections?: Correction[]; // On user messages: the mistakes the tutor flagged in this text
+}
+
+// The lesson the current chat belongs to, while it runs
+export interface ActiveSession {
+  id: string;
+  topic: string;
+  lessonId?: string;
+  startedAt: number;
+}
+
+// A finished lesson, kept for review (see services/sessions.ts)
+export interface ChatSessionRecord extends ActiveSession {
+  endedAt: number;
+  messages: ChatMessage[];
+  corrections: Correction[]; // Everything flagged in the learner's messages, in order
+}
+
+export interface CurriculumLesson {
+  id: string;
+  title: string;
+  topicPrompt: string; // What the conversation is about, written for the tutor
+  objectives: string[];
+  targetGrammar: string[];
+  targetVocabulary: string[];
+  warmUpQuestion: string;
+}
+
+export interface CurriculumUnit {
+  id: string;
+  level: CEFRLevel;
+  title: string;
+  lessons: CurriculumLesson[];
 }
 
 export interface VocabWord {
@@ -41,11 +104,41 @@ export interface VocabWord {
   indianContextExample: string;
   status: 'new' | 'reviewing' | 'mastered';
   lastReviewed: number;
+  // Spaced-repetition state (services/srs.ts); absent until the first review
+  schedule?: CardSchedule;
+  reviewLog?: ReviewLogEntry[];
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardSchedule {
+  ease: number; // SM-2 ease factor, >= 1.3
+  interval: number; // days until the next review; 0 while (re)learning
+  repetitions: number; // successful reviews in a row
+  lapses: number; // times the card was forgotten after being learned
+  dueAt: number; // timestamp
+}
+
+export interface ReviewLogEntry {
+  reviewedAt: number;
+  grade: ReviewGrade;
+  interval: number; // the interval the grade produced, in days
+}
+
+// Languages the translator accepts as input (see services/languages.ts)
+export type LanguageCode = 'hi' | 'ta' | 'te' | 'bn' | 'mr' | 'gu' | 'kn' | 'ml' | 'pa' | 'ur' | 'en';
+
+// One day's batch of new words; wordIds point into the vocabulary deck
+export interface VocabBatch {
+  date: string; // YYYY-MM-DD
+  level: CEFRLevel;
+  wordIds: string[];
 }
 
 export interface Translation {
   id: string;
   original: string;
+  sourceLanguage: LanguageCode;
   simple: string;
   enhanced: string;
   context: string;